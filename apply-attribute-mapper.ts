@@ -0,0 +1,645 @@
+import {
+  type HTMLTemplaterError,
+  mapperError,
+} from "./html-templater-error.ts";
+import { applyModel } from "./model.ts";
+import type { HTMLTemplater } from "./mod.ts";
+import type { StructuralChange } from "./query-plan.ts";
+import type { AttributeGuard } from "./safety.ts";
+import type { TemplateInstance } from "./template-instance.ts";
+import type {
+  AttributeHandlerValues,
+  MaybeArray,
+  ReactiveValue,
+  TemplateAttributeMapper,
+  TemplateChildren,
+  TemplateElementMapper,
+  TemplateScopedMapper,
+} from "./types.ts";
+import { queryNodes, SELF_SELECTOR, toCamel, toKebab } from "./utils.ts";
+
+/** Context in which mappers are applied */
+export type ApplyContext = {
+  /** Called instead of attaching the `eventListeners` to {@link element}, e.g. when rendering without a live DOM */
+  onEventListeners?: (
+    element: Element,
+    listeners: Record<string, unknown>,
+  ) => void;
+  /** The instance the mapper is applied to, which tracks the nested instances created by `children`, passes its data to event listeners and cancels them through its signal */
+  instance?: TemplateInstance;
+  /** Validates (and possibly sanitizes) every value assigned to an attribute or property in `safe` mode */
+  guard?: AttributeGuard;
+  /** Called in `strict` mode before {@link attribute} is set through `setAttribute` as {@link element} has no such property */
+  onUnknownProperty?: (element: Element, attribute: string) => void;
+  /** Wraps an error thrown by a mapper function for {@link attribute} (or `null` for element mapper functions) with the context it was applied in */
+  wrapError?: (error: unknown, attribute: string | null) => HTMLTemplaterError;
+  /** The attribute handlers of the templater, which take precedence over the globally registered ones */
+  handlers?: ReadonlyMap<string, AttributeHandler>;
+  /** Returns the context of the {@link query} selector of a nested `$children` mapper, which reports its number of {@link matches} in `strict` mode */
+  scope?: (query: string, matches: number) => ApplyContext;
+};
+
+/**
+ * Handles a key of attribute mappers instead of assigning its value to the property or attribute of the same name, like the built-in `style`, `dataset`, `classList`, `eventListeners`, `children` and `model` keys.
+ *
+ * Mapper functions receive the value returned by {@link read} and reactive values are applied through {@link apply} on every change. The value type within `TemplateAttributeMapper` is declared by extending {@link AttributeHandlerValues}.
+ *
+ * @example
+ * ```ts
+ * declare module "@md/html-templater" {
+ *   interface AttributeHandlerValues {
+ *     aria: TemplateAttributeChange<Record<string, string | null>>;
+ *   }
+ * }
+ * registerAttributeHandler<Record<string, string | null>>({
+ *   key: "aria",
+ *   // Only attributes change, so compiled queries stay in use
+ *   structural: "none",
+ *   apply: (element, aria) => {
+ *     for (const [name, value] of Object.entries(aria)) {
+ *       if (value === null) element.removeAttribute(`aria-${name}`);
+ *       else element.setAttribute(`aria-${name}`, value);
+ *     }
+ *   },
+ * });
+ * ```
+ */
+export type AttributeHandler<V = unknown> = {
+  /** The attribute mapper key handled */
+  key: string;
+  /** Applies the (resolved) {@link value} to {@link element} */
+  apply(element: Element, value: V, context: ApplyContext): void;
+  /** Reverts the key on {@link element} when its value is `null`, defaults to removing the attribute of the same name */
+  unapply?(element: Element, context: ApplyContext): void;
+  /** Reads the current value passed to mapper functions, defaults to the property (or attribute) of the same name */
+  read?(element: Element): unknown;
+  /** Checks if {@link element} already matches {@link value} while hydrating, otherwise the value is applied without comparing */
+  matches?(element: Element, value: V): boolean;
+  /** How {@link apply} may change the structure around the element, which compiled queries depend on. Defaults to `any` */
+  structural?: StructuralChange;
+};
+
+/** A value of an attribute mapper object */
+type AttributeValue = Exclude<
+  TemplateAttributeMapper<HTMLElement>,
+  null | string | ((element: Element) => unknown)
+>[string];
+
+/** Releases the subscriptions of the reactive values applied to an element by attribute */
+const subscriptions = new WeakMap<Element, Map<string, () => void>>();
+
+/** The nested instances currently rendered into an element by `children` */
+const nestedInstances = new WeakMap<Element, TemplateInstance[]>();
+
+/** Deeply applies all attributes from the {@link attributeMapper} to {@link el} */
+export const applyAttributeMapper = (
+  el: Element,
+  attributeMapper: TemplateAttributeMapper<HTMLElement>,
+  context: ApplyContext = {},
+): void => {
+  // Handle null case removing the element
+  if (attributeMapper === null) return el.remove();
+  // Handle custom mapper
+  if (typeof attributeMapper === "function") {
+    const mapElement = attributeMapper;
+    callMapper(() => mapElement(el), null, context);
+    return;
+  }
+  // Handle string case setting textContent
+  if (typeof attributeMapper === "string") {
+    attributeMapper = { textContent: attributeMapper };
+  }
+
+  const subscribed = subscriptions.get(el);
+  for (const [attribute, value] of Object.entries(attributeMapper)) {
+    // A new value replaces the reactive value previously applied to the attribute
+    subscribed?.get(attribute)?.();
+    if (isReactiveValue(value)) {
+      subscribeAttribute(el, attribute, value, context);
+    } else applyAttribute(el, attribute, value, context);
+  }
+};
+
+/** Applies a single {@link value} of the attribute mapper to the {@link attribute} of {@link el} */
+const applyAttribute = (
+  el: Element,
+  attribute: string,
+  value: AttributeValue,
+  context: ApplyContext,
+): void => {
+  const handler = findHandler(attribute, context);
+  // Handle mapper functions
+  const resolvedValue = typeof value === "function"
+    ? callMapper(
+      () =>
+        value(handler?.read ? handler.read(el) : readAttribute(el, attribute)),
+      attribute,
+      context,
+    )
+    : value;
+
+  if (!handler) {
+    // Remove attribute if value is null
+    if (resolvedValue === null) el.removeAttribute(attribute);
+    else assignAttribute(el, attribute, resolvedValue, context);
+  } else if (resolvedValue !== null) {
+    handler.apply(el, resolvedValue, context);
+  } else if (handler.unapply) handler.unapply(el, context);
+  else el.removeAttribute(attribute);
+};
+
+/**
+ * Assigns {@link value} to the property {@link attribute} of {@link el} if it exists or sets the attribute otherwise, validated by the guard in `safe` mode.
+ *
+ * Falling back to attributes keeps mappers working with DOM implementations lacking most properties, e.g. when rendering server-side.
+ */
+export const assignAttribute = (
+  el: Element,
+  attribute: string,
+  value: unknown,
+  context: ApplyContext,
+): void => {
+  const safeValue = context.guard ? context.guard(el, attribute, value) : value;
+  //  Update attribute directly if it exists on the element
+  if (attribute in el) {
+    // @ts-expect-error TypeScript can't guarantee the attribute exists on the element
+    el[attribute as keyof typeof el] = safeValue;
+  } // Add attribute otherwise
+  else {
+    context.onUnknownProperty?.(el, attribute);
+    el.setAttribute(attribute, String(safeValue));
+  }
+};
+
+/** Returns the handler of {@link attribute}, preferring the handlers of the {@link context} over the global ones */
+export const findHandler = (
+  attribute: string,
+  context: ApplyContext | undefined,
+): AttributeHandler | undefined =>
+  context?.handlers?.get(attribute) ?? globalHandlers.get(attribute);
+
+/** Checks if {@link value} is a {@link ReactiveValue} instead of a plain value */
+const isReactiveValue = (value: unknown): value is ReactiveValue<unknown> =>
+  typeof value === "object" && value !== null &&
+  (typeof (value as { subscribe?: unknown }).subscribe === "function" ||
+    (typeof (value as { get?: unknown }).get === "function" &&
+      typeof (value as { watch?: unknown }).watch === "function"));
+
+/**
+ * Applies the current and every following value of the reactive {@link value} to the {@link attribute} of {@link el}.
+ *
+ * The subscription is released once the instance of the {@link context} is removed or another value is applied to the attribute. Without an instance only the current value is applied.
+ */
+const subscribeAttribute = (
+  el: Element,
+  attribute: string,
+  value: ReactiveValue<unknown>,
+  context: ApplyContext,
+): void => {
+  const apply = (current: unknown) =>
+    applyAttribute(el, attribute, current as AttributeValue, context);
+  let unsubscribe: () => void;
+  if ("watch" in value) {
+    apply(value.get());
+    unsubscribe = value.watch(() => apply(value.get()));
+  } else {
+    const subscription = value.subscribe(apply);
+    unsubscribe = typeof subscription === "function"
+      ? subscription
+      : () => subscription.unsubscribe();
+  }
+
+  const { instance } = context;
+  if (!instance || instance.signal.aborted) return unsubscribe();
+  const attributes = subscriptions.get(el) ?? new Map();
+  subscriptions.set(el, attributes);
+  const release = () => {
+    instance.signal.removeEventListener("abort", release);
+    if (attributes.get(attribute) === release) attributes.delete(attribute);
+    unsubscribe();
+  };
+  attributes.set(attribute, release);
+  instance.signal.addEventListener("abort", release, { once: true });
+};
+
+/** Calls the user provided {@link mapper} function, wrapping thrown errors with the context they occurred in */
+const callMapper = <R>(
+  mapper: () => R,
+  attribute: string | null,
+  context: ApplyContext,
+): R => {
+  try {
+    return mapper();
+  } catch (error) {
+    throw context.wrapError?.(error, attribute) ??
+      mapperError(null, error, { attribute });
+  }
+};
+
+/** Replaces the nested instances rendered into {@link el} with new instances of the {@link children}' templater */
+const applyChildren = (
+  el: Element,
+  children: TemplateChildren | null,
+  { instance }: ApplyContext,
+): void => {
+  const previous = nestedInstances.get(el) ?? [];
+  for (const child of previous) child.remove();
+  if (instance) {
+    instance.children = instance.children.filter((child) =>
+      !previous.includes(child)
+    );
+  }
+  if (!children) {
+    nestedInstances.delete(el);
+    return;
+  }
+
+  const { templater, items } = children;
+  const created = [items].flat().map((mapper) =>
+    templater.createInstance(mapper)
+  );
+  templater.instances.push(...created);
+  el.append(...created.flatMap((child) => child.nodes));
+  nestedInstances.set(el, created);
+  instance?.children.push(...created);
+};
+
+/**
+ * Creates the value of a `children` attribute, inferring the type of the {@link items} from the mapper type of {@link templater}.
+ *
+ * @example
+ * ```ts
+ * const tags = new HTMLTemplater<{ ".tag": string }>("#tag-template", { appendToParent: false });
+ * new HTMLTemplater("#card-template").instantiate({
+ *   ".tags": { children: children(tags, [{ ".tag": "a" }, { ".tag": "b" }]) },
+ * });
+ * ```
+ */
+export const children = <T extends TemplateElementMapper>(
+  templater: HTMLTemplater<T>,
+  items: MaybeArray<NoInfer<T>>,
+): TemplateChildren<HTMLTemplater<T>> => ({ templater, items });
+
+/** Applies all {@link TemplateAttributeMapper}s of {@link mapper} to the matching elements within {@link fragment} */
+export const mapFragment = (
+  fragment: ParentNode,
+  mapper: TemplateElementMapper,
+  context?: ApplyContext,
+): void => {
+  for (const [query, attributes] of selectorEntries(mapper)) {
+    const elements = query === SELF_SELECTOR
+      ? queryNodes(Array.from(fragment.childNodes), query)
+      : fragment.querySelectorAll(query);
+    elements.forEach((el) => applyAttributeMapper(el, attributes, context));
+  }
+};
+
+/**
+ * Compares all attributes from the {@link attributeMapper} with the already rendered {@link el} and only attaches its event listeners.
+ *
+ * Mismatches are reported through {@link onMismatch} after which the mapper value is applied. Mapper functions are skipped as their input was already modified during rendering.
+ */
+export const hydrateAttributeMapper = (
+  el: Element,
+  attributeMapper: TemplateAttributeMapper<HTMLElement>,
+  onMismatch: (description: string) => void,
+  context?: ApplyContext,
+): void => {
+  if (attributeMapper === null) {
+    onMismatch("should have been removed");
+    return el.remove();
+  }
+  if (typeof attributeMapper === "function") return;
+  if (typeof attributeMapper === "string") {
+    attributeMapper = { textContent: attributeMapper };
+  }
+
+  for (const [attribute, value] of Object.entries(attributeMapper)) {
+    if (typeof value === "function" || value === undefined) continue;
+    if (attribute === SCOPED_KEY && value !== null) {
+      hydrateScopedMapper(
+        el,
+        value as TemplateScopedMapper,
+        onMismatch,
+        context,
+      );
+      continue;
+    }
+    if (
+      findHandler(attribute, context) === childrenHandler && value !== null
+    ) {
+      hydrateChildren(el, value as TemplateChildren, onMismatch, context);
+      continue;
+    }
+    // Reactive values can't be compared before subscribing, which applies their current value
+    if (isReactiveValue(value)) {
+      subscribeAttribute(el, attribute, value, context ?? {});
+      continue;
+    }
+    const handler = findHandler(attribute, context);
+    // Values of handlers which can't be compared (e.g. event listeners) are only applied
+    if (!handler || handler.matches || value === null) {
+      const matches = handler?.matches && value !== null
+        ? handler.matches(el, value)
+        : matchesAttribute(el, attribute, value);
+      if (matches) continue;
+      onMismatch(`doesn't match the mapper's ${attribute}`);
+    }
+    applyAttributeMapper(
+      el,
+      { [attribute]: value } as TemplateAttributeMapper<HTMLElement>,
+      context,
+    );
+  }
+};
+
+/** Hydrates the selectors of the nested {@link mapper} relative to {@link el} like {@link hydrateAttributeMapper} */
+const hydrateScopedMapper = (
+  el: Element,
+  mapper: TemplateScopedMapper,
+  onMismatch: (description: string) => void,
+  context?: ApplyContext,
+): void => {
+  for (const [query, attributes] of selectorEntries(mapper)) {
+    const elements = scopedElements(el, query);
+    const scoped = context?.scope?.(query, elements.length) ?? context;
+    const onScopedMismatch = (description: string) =>
+      onMismatch(`> "${query}" ${description}`);
+    if (attributes !== null && elements.length === 0) {
+      onScopedMismatch("matches no element");
+    }
+    for (const match of elements) {
+      hydrateAttributeMapper(match, attributes, onScopedMismatch, scoped);
+    }
+  }
+};
+
+/**
+ * Adopts the children of {@link el} as the nested instances of {@link children}, split into groups of the number of top-level nodes of the nested template.
+ *
+ * If the number of nodes doesn't match the items, it's reported through {@link onMismatch} and the nested instances are rendered again.
+ */
+const hydrateChildren = (
+  el: Element,
+  children: TemplateChildren,
+  onMismatch: (description: string) => void,
+  context?: ApplyContext,
+): void => {
+  const { templater, items } = children;
+  const mappers = [items].flat();
+  const nodes = Array.from(el.childNodes);
+  const size = templater.template.content.childNodes.length;
+  if (nodes.length !== size * mappers.length) {
+    onMismatch(
+      `has ${nodes.length} nested nodes but ${mappers.length} children of ${size} nodes`,
+    );
+    el.replaceChildren();
+    return applyChildren(el, children, context ?? {});
+  }
+
+  const adopted = mappers.map((mapper, index) =>
+    templater.hydrateInstance(
+      nodes.slice(index * size, (index + 1) * size),
+      mapper,
+      (description) => onMismatch(`> children ${index} ${description}`),
+    )
+  );
+  templater.instances.push(...adopted);
+  nestedInstances.set(el, adopted);
+  context?.instance?.children.push(...adopted);
+};
+
+/** Checks if the current {@link attribute} of {@link el} already matches the mapper {@link value} */
+const matchesAttribute = (
+  el: Element,
+  attribute: string,
+  value: unknown,
+): boolean => {
+  if (value === null) return !el.hasAttribute(attribute);
+  // Compare attribute as well as properties may be normalized (e.g. absolute `href`)
+  const expected = String(value);
+  return (attribute in el &&
+    String(el[attribute as keyof Element]) === expected) ||
+    el.getAttribute(attribute) === expected;
+};
+
+/** Returns the query selector entries of {@link mapper} including `$self`, skipping other reserved keys prefixed with `$` (e.g. `$data`) */
+export const selectorEntries = (
+  mapper: TemplateElementMapper | TemplateScopedMapper,
+): [string, TemplateAttributeMapper<HTMLElement>][] =>
+  (Object.entries(mapper) as [string, TemplateAttributeMapper<HTMLElement>][])
+    .filter(([key]) => !key.startsWith("$") || key === SELF_SELECTOR);
+
+/** Returns the descendants of {@link el} matching {@link query} or the element itself for `$self` */
+const scopedElements = (el: Element, query: string): Element[] =>
+  query === SELF_SELECTOR ? [el] : Array.from(el.querySelectorAll(query));
+
+/** Reads the current value of {@link attribute}, e.g. to pass it to mapper functions, falling back to the attribute if the property is unavailable */
+export const readAttribute = (el: Element, attribute: string): unknown => {
+  const value = el[attribute as keyof Element];
+  if (value !== undefined && value !== null) return value;
+  // Provide the same object shapes without the properties, see `assignAttribute`
+  if (attribute === "style" && !(attribute in el)) {
+    return readStyleAttribute(el);
+  }
+  if (attribute === "dataset" && !(attribute in el)) {
+    return Object.fromEntries(
+      el.getAttributeNames()
+        .filter((name) => name.startsWith("data-"))
+        .map((name) => [toCamel(name.slice(5)), el.getAttribute(name)]),
+    );
+  }
+  return el.getAttribute(attribute);
+};
+
+/** Parses the `style` attribute of {@link el} into a camel cased object */
+const readStyleAttribute = (el: Element): Record<string, string> => {
+  const style: Record<string, string> = {};
+  for (const rule of (el.getAttribute("style") ?? "").split(";")) {
+    const [property, ...value] = rule.split(":");
+    if (property.trim() && value.length) {
+      style[toCamel(property.trim())] = value.join(":").trim();
+    }
+  }
+  return style;
+};
+
+/** Merges the camel cased {@link style} object into the `style` attribute of {@link el} */
+const writeStyleAttribute = (el: Element, style: object): void => {
+  const merged = { ...readStyleAttribute(el), ...style };
+  el.setAttribute(
+    "style",
+    Object.entries(merged)
+      .filter(([, value]) =>
+        value !== null && value !== undefined && value !== ""
+      )
+      .map(([property, value]) => `${toKebab(property)}: ${value}`)
+      .join("; "),
+  );
+};
+
+/** Assigns objects to the `style` or `dataset` {@link key}, serializing them into attributes without the property like {@link assignAttribute} */
+const objectPropertyHandler = (key: "style" | "dataset"): AttributeHandler => ({
+  key,
+  structural: "none",
+  apply: (el, value, context) => {
+    if (typeof value !== "object") {
+      return assignAttribute(el, key, value, context);
+    }
+    if (key in el) Object.assign((el as HTMLElement)[key], value);
+    else if (key === "style") writeStyleAttribute(el, value as object);
+    else {
+      for (const [name, data] of Object.entries(value as object)) {
+        el.setAttribute(`data-${toKebab(name)}`, String(data));
+      }
+    }
+  },
+  matches: (el, value) => {
+    if (typeof value !== "object") return matchesAttribute(el, key, value);
+    const current = readAttribute(el, key) as Record<string, unknown>;
+    return Object.entries(value as object).every(([name, expected]) =>
+      String(current[name]) === String(expected)
+    );
+  },
+});
+
+/** Adds the classes of arrays, replaces all classes with those of a `DOMTokenList` and adds or removes the classes of objects by their flags */
+const classListHandler: AttributeHandler<
+  DOMTokenList | string[] | Record<string, boolean>
+> = {
+  key: "classList",
+  structural: "none",
+  apply: (el, value) => {
+    const { classList } = el;
+    if (Array.isArray(value)) {
+      classList.add(...value);
+    } // Handle `DOMTokenList` being returned and clear existing while adding new
+    else if (classList.constructor === value.constructor) {
+      if (classList !== value) {
+        classList.forEach((v) => classList.remove(v));
+        (value as DOMTokenList).forEach((v) => classList.add(v));
+      }
+    } else if (typeof value === "object") {
+      for (const [className, shouldAdd] of Object.entries(value)) {
+        if (shouldAdd) classList.add(className);
+        else classList.remove(className);
+      }
+    }
+  },
+  matches: (el, value) => {
+    if (typeof value !== "object") {
+      return matchesAttribute(el, "classList", value);
+    }
+    const { classList } = el;
+    if (Array.isArray(value)) {
+      return value.every((className) => classList.contains(className));
+    }
+    if (classList.constructor === value.constructor) {
+      const list = value as DOMTokenList;
+      return list.length === classList.length &&
+        Array.from(list).every((className) => classList.contains(className));
+    }
+    return Object.entries(value).every(([className, shouldContain]) =>
+      classList.contains(className) === Boolean(shouldContain)
+    );
+  },
+};
+
+/** Attaches event listeners, which receive the data and instance they were created by and are removed along with it */
+const eventListenersHandler: AttributeHandler<
+  AttributeHandlerValues["eventListeners"]
+> = {
+  key: "eventListeners",
+  structural: "none",
+  apply: (el, listeners, context) => {
+    if (context.onEventListeners) {
+      return context.onEventListeners(el, listeners);
+    }
+    const { instance } = context;
+    for (const [event, listener] of Object.entries(listeners)) {
+      if (!listener) continue;
+      el.addEventListener(
+        event,
+        instance
+          ? (e) =>
+            (listener as (...args: unknown[]) => unknown).call(
+              el,
+              e,
+              instance.data,
+              instance,
+            )
+          : listener as EventListener,
+        { signal: instance?.signal },
+      );
+    }
+  },
+};
+
+/** Renders nested instances into the element, replacing the previous ones */
+const childrenHandler: AttributeHandler<TemplateChildren> = {
+  key: "children",
+  apply: applyChildren,
+  unapply: (el, context) => applyChildren(el, null, context),
+};
+
+/** Binds form controls to the data of their instance */
+const modelHandler: AttributeHandler<AttributeHandlerValues["model"]> = {
+  key: "model",
+  structural: "none",
+  apply: (el, binding, { instance }) => {
+    if (instance) applyModel(el, binding, instance);
+  },
+  // The control stays bound until its instance is removed
+  unapply: () => {},
+};
+
+/** The attribute mapper key of nested mappers applied relative to the element */
+const SCOPED_KEY = "$children";
+
+/** Applies the selectors of nested mappers relative to the element, where `$self` matches the element itself */
+const scopedHandler: AttributeHandler<TemplateScopedMapper> = {
+  key: SCOPED_KEY,
+  apply: (el, mapper, context) => {
+    for (const [query, attributes] of selectorEntries(mapper)) {
+      const elements = scopedElements(el, query);
+      const scoped = context.scope?.(query, elements.length) ?? context;
+      for (const match of elements) {
+        applyAttributeMapper(match, attributes, scoped);
+      }
+    }
+  },
+  // Nested values applied before stay in place
+  unapply: () => {},
+};
+
+/** The attribute handlers of all templaters by key, starting with the built-in ones */
+const globalHandlers = new Map<string, AttributeHandler>(
+  [
+    objectPropertyHandler("style"),
+    objectPropertyHandler("dataset"),
+    classListHandler,
+    eventListenersHandler,
+    childrenHandler,
+    modelHandler,
+    scopedHandler,
+  ].map((handler) => [handler.key, handler as AttributeHandler]),
+);
+
+/**
+ * Registers {@link handler} for the attribute mappers of all templaters, replacing the handler of the same key (including the built-in ones).
+ *
+ * Handlers passed to the `attributeHandlers` option of a templater take precedence over the registered ones.
+ *
+ * @returns A function unregistering the handler again, which restores the replaced handler
+ */
+export const registerAttributeHandler = <V>(
+  handler: AttributeHandler<V>,
+): () => void => {
+  const replaced = globalHandlers.get(handler.key);
+  globalHandlers.set(handler.key, handler as AttributeHandler);
+  return () => {
+    if (globalHandlers.get(handler.key) !== handler) return;
+    if (replaced) globalHandlers.set(handler.key, replaced);
+    else globalHandlers.delete(handler.key);
+  };
+};
@@ -0,0 +1,201 @@
+import {
+  HTMLTemplaterError,
+  HTMLTemplaterErrorCode,
+} from "./html-templater-error.ts";
+import { HTMLTemplater } from "./mod.ts";
+import type { TemplateInstance } from "./template-instance.ts";
+import type { TemplateElementMapper } from "./types.ts";
+import { isElement } from "./utils.ts";
+
+/** A custom element defined by {@link defineElement} with its typed properties */
+export type TemplatedElement<P extends object> = HTMLElement & P & {
+  /** Re-applies the mapper of the element to its rendered template */
+  render(): void;
+};
+
+/** The state of a {@link TemplatedElement} passed to its mapper */
+export type ElementState<P extends object> = {
+  /** The element the template is rendered for */
+  element: TemplatedElement<P>;
+  /** The current values of all observed attributes */
+  attributes: Record<string, string | null>;
+  /** The current values of all properties */
+  properties: P;
+};
+
+/**
+ * Defines a custom element rendering {@link template} into its shadow root (or itself with `shadow: false`).
+ *
+ * The mapper is created from the observed attributes and typed properties of the element and re-applied through {@link TemplateInstance.update} whenever one of them changes.
+ * `<slot>` elements work natively within shadow roots, otherwise the children of the element are moved into the slots matching their `slot` attribute.
+ * Disconnecting the element removes its instance (moving slotted children back), which is created again once it reconnects.
+ *
+ * @param tagName The name of the custom element, which has to contain a dash
+ * @param template The template source passed to {@link HTMLTemplater}, selectors are resolved once the first element connects
+ * @param options
+ * @param options.map Creates the mapper from the state of the element
+ * @param options.observedAttributes The attributes which re-apply the mapper when changed
+ * @param options.properties The properties of the element with their default values, which re-apply the mapper when set
+ * @param options.shadow The options of the shadow root, `false` to render into the element itself. Defaults to an open shadow root.
+ * @param options.registry The registry to define the element in, defaults to the global `customElements`
+ * @returns The class of the custom element
+ *
+ * @example
+ * ```ts
+ * const UserCard = defineElement("user-card", "#user-card-template", {
+ *   observedAttributes: ["name"],
+ *   properties: { avatar: "" },
+ *   map: ({ attributes, properties }) => ({
+ *     h2: attributes.name ?? "Anonymous",
+ *     img: { src: properties.avatar },
+ *   }),
+ * });
+ * const card = new UserCard();
+ * card.avatar = "avatar.png";
+ * ```
+ */
+export const defineElement = <
+  T extends TemplateElementMapper = TemplateElementMapper,
+  P extends object = Record<never, never>,
+>(
+  tagName: string,
+  template: string | HTMLTemplateElement | DocumentFragment,
+  options: {
+    map: (state: ElementState<P>) => T;
+    observedAttributes?: ReadonlyArray<string>;
+    properties?: P;
+    shadow?: boolean | ShadowRootInit;
+    registry?: Pick<CustomElementRegistry, "define">;
+  },
+): { new (): TemplatedElement<P>; prototype: TemplatedElement<P> } => {
+  const registry = options.registry ?? globalThis.customElements;
+  if (!registry) {
+    throw new HTMLTemplaterError(
+      null,
+      `Can't define "${tagName}" as no \`customElements\` registry is available`,
+      { code: HTMLTemplaterErrorCode.CustomElementsUnavailable },
+    );
+  }
+  const { map, observedAttributes = [], shadow = true } = options;
+  const defaults = options.properties ?? {} as P;
+  const propertyNames = Object.keys(defaults) as (keyof P & string)[];
+  // Created once the first element connects so the template may be defined after the element
+  let templater: HTMLTemplater<T> | null = null;
+
+  class TemplatedCustomElement extends HTMLElement {
+    static observedAttributes = [...observedAttributes];
+
+    static {
+      for (const name of propertyNames) {
+        Object.defineProperty(this.prototype, name, {
+          get(this: TemplatedCustomElement) {
+            return this.properties[name];
+          },
+          set(this: TemplatedCustomElement, value: P[typeof name]) {
+            this.properties[name] = value;
+            this.render();
+          },
+          configurable: true,
+          enumerable: true,
+        });
+      }
+    }
+
+    private properties: P = { ...defaults };
+    private instance: TemplateInstance<T> | null = null;
+    /** The children moved into the slots of the instance with `shadow: false` */
+    private slotted: ChildNode[] = [];
+    /** The shadow root attached on the first mount, as `shadowRoot` is `null` for closed roots */
+    private root: ShadowRoot | null = null;
+
+    connectedCallback(): void {
+      // Apply properties set before the element was upgraded, which shadow the accessors
+      const own = this as unknown as Record<string, unknown>;
+      for (const name of propertyNames) {
+        if (!Object.hasOwn(own, name)) continue;
+        const value = own[name];
+        delete own[name];
+        this.properties[name] = value as P[typeof name];
+      }
+      if (!this.instance) this.mount();
+    }
+
+    disconnectedCallback(): void {
+      this.instance?.remove();
+      this.instance = null;
+      this.append(...this.slotted);
+      this.slotted = [];
+    }
+
+    attributeChangedCallback(): void {
+      this.render();
+    }
+
+    render(): void {
+      this.instance?.update(map(this.state()));
+    }
+
+    private mount(): void {
+      templater ??= new HTMLTemplater<T>(template, {
+        appendToParent: false,
+        removeFromDom: false,
+      });
+      const instance = templater.createInstance(map(this.state()));
+      if (shadow) {
+        this.root ??= this.attachShadow(
+          shadow === true ? { mode: "open" } : shadow,
+        );
+        this.root.append(...instance.nodes);
+      } else {
+        this.slotted = assignSlots(this, instance.nodes);
+        this.append(...instance.nodes);
+      }
+      this.instance = instance;
+    }
+
+    private state(): ElementState<P> {
+      return {
+        element: this as unknown as TemplatedElement<P>,
+        attributes: Object.fromEntries(
+          observedAttributes.map((name) => [name, this.getAttribute(name)]),
+        ),
+        properties: { ...this.properties },
+      };
+    }
+  }
+
+  registry.define(tagName, TemplatedCustomElement);
+  return TemplatedCustomElement as unknown as {
+    new (): TemplatedElement<P>;
+    prototype: TemplatedElement<P>;
+  };
+};
+
+/**
+ * Moves the children of {@link host} into the `<slot>` elements within {@link nodes} matching their `slot` attribute, as slots only work in shadow roots.
+ *
+ * @returns The moved children
+ */
+const assignSlots = (
+  host: Element,
+  nodes: ReadonlyArray<ChildNode>,
+): ChildNode[] => {
+  const slots = nodes.filter(isElement).flatMap((node) => [
+    ...(node.matches("slot") ? [node] : []),
+    ...Array.from(node.querySelectorAll("slot")),
+  ]);
+  const slotted: ChildNode[] = [];
+  if (!slots.length) return slotted;
+
+  const children = Array.from(host.childNodes);
+  for (const slot of slots) {
+    const name = slot.getAttribute("name") ?? "";
+    const assigned = children.filter((child) =>
+      (isElement(child) ? child.getAttribute("slot") ?? "" : "") === name
+    );
+    // Keep the fallback content if nothing is assigned
+    if (assigned.length) slot.replaceChildren(...assigned);
+    slotted.push(...assigned);
+  }
+  return slotted;
+};
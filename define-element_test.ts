@@ -0,0 +1,159 @@
+/// <reference lib="deno.ns" />
+import { DOMParser, Element } from "@b-fuze/deno-dom";
+import { defineElement, type TemplatedElement } from "@md/html-templater";
+import { assert, assertEquals } from "@std/assert";
+
+/** The lifecycle callbacks a browser calls on custom elements, which are called manually here */
+type Lifecycle = {
+  connectedCallback(): void;
+  disconnectedCallback(): void;
+  attributeChangedCallback(): void;
+};
+
+/** Stands in for `HTMLElement`, which deno-dom can't construct, by creating `<div>`s with the prototype of the custom element class */
+class FakeHTMLElement {
+  constructor() {
+    return Object.setPrototypeOf(
+      document.createElement("div"),
+      new.target.prototype,
+    );
+  }
+
+  attachShadow(this: Element, init: ShadowRootInit): DocumentFragment {
+    if (Object.hasOwn(this, "shadowRoot")) {
+      throw new Error(
+        "Shadow root cannot be created on a host which already hosts a shadow tree.",
+      );
+    }
+    const root = this.ownerDocument!.createDocumentFragment();
+    // Closed shadow roots aren't exposed on the host
+    Object.defineProperty(this, "shadowRoot", {
+      value: init.mode === "open" ? root : null,
+    });
+    return root as unknown as DocumentFragment;
+  }
+}
+Object.setPrototypeOf(FakeHTMLElement.prototype, Element.prototype);
+
+/** Defines the globals for the templater and collects the elements defined in a fake registry */
+const setup = (bodyHTML: string) => {
+  const dom = new DOMParser().parseFromString(
+    `<body>${bodyHTML}</body>`,
+    "text/html",
+  );
+  globalThis.document = dom as unknown as Document;
+  globalThis.HTMLElement = FakeHTMLElement as unknown as typeof HTMLElement;
+  const defined = new Map<string, CustomElementConstructor>();
+  const registry = {
+    define: (name: string, constructor: CustomElementConstructor) => {
+      defined.set(name, constructor);
+    },
+  };
+  return { defined, registry };
+};
+
+/** Returns the lifecycle callbacks of {@link element} */
+const lifecycle = (element: HTMLElement) => element as unknown as Lifecycle;
+
+Deno.test("defineElement() renders into the shadow root once connected", () => {
+  const { defined, registry } = setup(
+    `<template id="card"><h2></h2><img></template>`,
+  );
+  const Card = defineElement("user-card", "#card", {
+    observedAttributes: ["name"],
+    properties: { avatar: "" },
+    map: ({ attributes, properties }) => ({
+      h2: attributes.name ?? "Anonymous",
+      img: { src: properties.avatar },
+    }),
+    registry,
+  });
+  assertEquals(defined.get("user-card"), Card);
+
+  const card = new Card();
+  assert(!card.shadowRoot);
+  lifecycle(card).connectedCallback();
+  const root = card.shadowRoot!;
+  assertEquals(root.querySelector("h2")?.textContent, "Anonymous");
+
+  card.setAttribute("name", "Alice");
+  lifecycle(card).attributeChangedCallback();
+  assertEquals(root.querySelector("h2")?.textContent, "Alice");
+
+  card.avatar = "alice.png";
+  assertEquals(root.querySelector("img")?.getAttribute("src"), "alice.png");
+  assertEquals(card.avatar, "alice.png");
+});
+
+Deno.test("defineElement() applies properties set before the upgrade", () => {
+  const { registry } = setup(`<template id="badge"><span></span></template>`);
+  const Badge = defineElement("count-badge", "#badge", {
+    properties: { count: 0 },
+    map: ({ properties }) => ({ span: String(properties.count) }),
+    shadow: false,
+    registry,
+  });
+
+  const badge: TemplatedElement<{ count: number }> = new Badge();
+  // Properties set before the upgrade are own properties shadowing the accessors
+  Object.defineProperty(badge, "count", {
+    value: 3,
+    configurable: true,
+    enumerable: true,
+    writable: true,
+  });
+  lifecycle(badge).connectedCallback();
+  assertEquals(badge.querySelector("span")?.textContent, "3");
+
+  badge.count = 4;
+  assertEquals(badge.querySelector("span")?.textContent, "4");
+});
+
+Deno.test("defineElement() assigns slots and restores them on disconnect with shadow: false", () => {
+  const { registry } = setup(
+    `<template id="panel"><div class="body"><slot></slot></div><footer><slot name="footer">Fallback</slot></footer><aside><slot name="aside">Empty</slot></aside></template>`,
+  );
+  const Panel = defineElement("info-panel", "#panel", {
+    map: () => ({}),
+    shadow: false,
+    registry,
+  });
+
+  const panel = new Panel();
+  panel.innerHTML = `<b>Main</b><i slot="footer">Footer</i>`;
+  lifecycle(panel).connectedCallback();
+  assertEquals(
+    panel.innerHTML,
+    `<div class="body"><slot><b>Main</b></slot></div><footer><slot name="footer"><i slot="footer">Footer</i></slot></footer><aside><slot name="aside">Empty</slot></aside>`,
+  );
+
+  lifecycle(panel).disconnectedCallback();
+  assertEquals(panel.innerHTML, `<b>Main</b><i slot="footer">Footer</i>`);
+  lifecycle(panel).connectedCallback();
+  assertEquals(panel.querySelector("footer i")?.textContent, "Footer");
+});
+
+Deno.test("defineElement() reuses a closed shadow root when reconnected", () => {
+  const { registry } = setup(`<template id="secret"><p></p></template>`);
+  const Secret = defineElement("closed-secret", "#secret", {
+    properties: { text: "" },
+    map: ({ properties }) => ({ p: properties.text }),
+    shadow: { mode: "closed" },
+    registry,
+  });
+
+  const secret = new Secret();
+  const attachShadow = secret.attachShadow;
+  let root: ShadowRoot | null = null;
+  secret.attachShadow = (init) => root = attachShadow.call(secret, init);
+  lifecycle(secret).connectedCallback();
+  assertEquals(secret.shadowRoot, null);
+  assertEquals(root!.querySelector("p")?.textContent, "");
+
+  lifecycle(secret).disconnectedCallback();
+  assertEquals(root!.childNodes.length, 0);
+  secret.text = "hidden";
+  lifecycle(secret).connectedCallback();
+  assertEquals(root!.querySelectorAll("p").length, 1);
+  assertEquals(root!.querySelector("p")?.textContent, "hidden");
+});
@@ -0,0 +1,177 @@
+import {
+  HTMLTemplaterError,
+  HTMLTemplaterErrorCode,
+} from "./html-templater-error.ts";
+
+/** A compiled expression evaluated against a scope */
+type Evaluator = (scope: unknown) => unknown;
+
+/** Matches a single token of the expression syntax */
+const TOKEN =
+  /\s*(?:(\d+(?:\.\d+)?)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|([A-Za-z_$][\w$]*)|(===|!==|==|!=|<=|>=|&&|\|\||[!<>()[\].]))/y;
+
+/** Cache of all compiled expressions by their source */
+const cache = new Map<string, Evaluator>();
+
+/**
+ * Evaluates the {@link expression} against {@link scope} without `eval` so it works under a strict CSP.
+ *
+ * Only a limited syntax is supported:
+ *  - Property paths which are `null`-safe: `user.name`, `items[0]`, `items.length`
+ *  - Literals: numbers, strings in single or double quotes, `true`, `false`, `null`, `undefined`
+ *  - Operators: `!`, `===`, `!==`, `==`, `!=`, `<`, `<=`, `>`, `>=`, `&&`, `||` and parentheses
+ */
+export const evaluateExpression = (
+  expression: string,
+  scope: unknown,
+): unknown => {
+  let evaluator = cache.get(expression);
+  if (!evaluator) {
+    evaluator = compileExpression(expression);
+    cache.set(expression, evaluator);
+  }
+  return evaluator(scope);
+};
+
+/** Parses the {@link source} into an {@link Evaluator} */
+const compileExpression = (source: string): Evaluator => {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < source.trimEnd().length) {
+    const match = TOKEN.exec(source);
+    if (!match) {
+      throw syntaxError(
+        source,
+        `unexpected "${source.slice(TOKEN.lastIndex).trim()}"`,
+      );
+    }
+    tokens.push(match[0].trim());
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) {
+      throw syntaxError(source, `expected "${token}"`);
+    }
+    position++;
+  };
+
+  const binary = (
+    operators: Record<string, (a: unknown, b: unknown) => unknown>,
+    next: () => Evaluator,
+  ) =>
+  (): Evaluator => {
+    let left = next();
+    while (Object.hasOwn(operators, peek() ?? "")) {
+      const operate = operators[tokens[position++]];
+      const [l, right] = [left, next()];
+      left = (scope) => operate(l(scope), right(scope));
+    }
+    return left;
+  };
+
+  const primary = (): Evaluator => {
+    const token = tokens[position++];
+    if (token === undefined) throw syntaxError(source, "unexpected end");
+    if (token === "(") {
+      const inner = or();
+      expect(")");
+      return member(inner);
+    }
+    if (/^\d/.test(token)) {
+      const value = Number(token);
+      return () => value;
+    }
+    if (/^["']/.test(token)) {
+      const value = token.slice(1, -1).replace(/\\(.)/g, "$1");
+      return () => value;
+    }
+    if (Object.hasOwn(LITERALS, token)) {
+      const value = LITERALS[token];
+      return () => value;
+    }
+    if (/^[A-Za-z_$]/.test(token)) return member((scope) => read(scope, token));
+    throw syntaxError(source, `unexpected "${token}"`);
+  };
+
+  const member = (object: Evaluator): Evaluator => {
+    while (peek() === "." || peek() === "[") {
+      const target = object;
+      if (tokens[position++] === ".") {
+        const key = tokens[position++];
+        if (!/^[A-Za-z_$]/.test(key ?? "")) {
+          throw syntaxError(source, 'expected property name after "."');
+        }
+        object = (scope) => read(target(scope), key);
+      } else {
+        const key = or();
+        expect("]");
+        object = (scope) => read(target(scope), key(scope));
+      }
+    }
+    return object;
+  };
+
+  const unary = (): Evaluator => {
+    if (peek() !== "!") return primary();
+    position++;
+    const operand = unary();
+    return (scope) => !operand(scope);
+  };
+
+  const comparison = binary({
+    "<": (a, b) => (a as number) < (b as number),
+    "<=": (a, b) => (a as number) <= (b as number),
+    ">": (a, b) => (a as number) > (b as number),
+    ">=": (a, b) => (a as number) >= (b as number),
+  }, unary);
+  const equality = binary({
+    "===": (a, b) => a === b,
+    "!==": (a, b) => a !== b,
+    // deno-lint-ignore eqeqeq
+    "==": (a, b) => a == b,
+    // deno-lint-ignore eqeqeq
+    "!=": (a, b) => a != b,
+  }, comparison);
+
+  // Logical operators short-circuit so they can't use `binary`
+  const logical = (operator: "&&" | "||", next: () => Evaluator) => () => {
+    let left = next();
+    while (peek() === operator) {
+      position++;
+      const [l, right] = [left, next()];
+      left = operator === "&&"
+        ? (scope) => l(scope) && right(scope)
+        : (scope) => l(scope) || right(scope);
+    }
+    return left;
+  };
+  const and = logical("&&", equality);
+  const or: () => Evaluator = logical("||", and);
+
+  const evaluator = or();
+  if (position < tokens.length) {
+    throw syntaxError(source, `unexpected "${tokens[position]}"`);
+  }
+  return evaluator;
+};
+
+/** Keywords evaluating to literal values */
+const LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+/** Reads {@link key} from {@link object}, returning `undefined` for `null` or `undefined` objects */
+const read = (object: unknown, key: unknown): unknown =>
+  object === null || object === undefined
+    ? undefined
+    : (object as Record<string, unknown>)[key as string];
+
+const syntaxError = (source: string, reason: string) =>
+  new HTMLTemplaterError(null, `Invalid expression "${source}": ${reason}`, {
+    code: HTMLTemplaterErrorCode.InvalidExpression,
+  });
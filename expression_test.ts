@@ -0,0 +1,35 @@
+/// <reference lib="deno.ns" />
+import { HTMLTemplaterError } from "@md/html-templater";
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { evaluateExpression } from "./expression.ts";
+
+const scope = {
+  user: { name: "Ann", age: 30, tags: ["a", "b"] },
+  empty: null,
+  index: 1,
+};
+
+Deno.test("evaluateExpression() reads null-safe property paths", () => {
+  assertEquals(evaluateExpression("user.name", scope), "Ann");
+  assertEquals(evaluateExpression("user.tags[index]", scope), "b");
+  assertEquals(evaluateExpression("user.tags.length", scope), 2);
+  assertEquals(evaluateExpression("empty.missing.deeply", scope), undefined);
+});
+
+Deno.test("evaluateExpression() supports literals and operators", () => {
+  assertEquals(evaluateExpression("user.age >= 18 && !empty", scope), true);
+  assertEquals(
+    evaluateExpression("user.name === 'Bob' || 'none'", scope),
+    "none",
+  );
+  assertEquals(evaluateExpression("(user).tags[0]", scope), "a");
+  assertEquals(evaluateExpression('"a\\"b"', scope), 'a"b');
+  assertEquals(evaluateExpression("null == undefined", scope), true);
+});
+
+Deno.test("evaluateExpression() rejects unsupported syntax", () => {
+  for (const expression of ["user.name()", "a = 1", "user.", "(a"]) {
+    const error = assertThrows(() => evaluateExpression(expression, scope));
+    assertInstanceOf(error, HTMLTemplaterError);
+  }
+});
@@ -0,0 +1,144 @@
+import type { TemplateInstance } from "./template-instance.ts";
+import { readAttribute } from "./apply-attribute-mapper.ts";
+import type { SelectedElement } from "./types.ts";
+import { isElement, queryNodes, toKebab } from "./utils.ts";
+
+/**
+ * Describes how to read a value from the element matched by a selector of an {@link ExtractSchema}.
+ *
+ * A string is shorthand for `{ property }`, without a source the `textContent` is read.
+ */
+export type ExtractField<E extends Element = HTMLElement, V = unknown> =
+  | (keyof E & string)
+  | {
+    /** The property to read, falling back to the attribute of the same name */
+    property?: keyof E & string;
+    /** The attribute to read instead of a property */
+    attribute?: string;
+    /** The camelCase key of `dataset` to read instead of a property */
+    dataset?: string;
+    /** Parses the raw value, which isn't called if the element or attribute is missing */
+    parse?: (raw: string, element: E) => V;
+    /** Reads all matching elements into an array instead of only the first */
+    all?: boolean;
+  };
+
+/** Accepts the fields of all selectors, as their element types are only known for plain tag names */
+type AnyExtractField =
+  | string
+  | {
+    property?: string;
+    attribute?: string;
+    dataset?: string;
+    parse?: (raw: string, element: never) => unknown;
+    all?: boolean;
+  };
+
+/**
+ * Maps query selectors to the fields to read from the elements they match, keyed like a `TemplateElementMapper` so the same selectors are used to render and extract.
+ *
+ * @example
+ * ```ts
+ * const schema = {
+ *   h2: "textContent",
+ *   a: { attribute: "href" },
+ *   ".price": { parse: Number },
+ *   ".tag": { all: true },
+ *   "[data-id]": { dataset: "id" },
+ * } satisfies ExtractSchema;
+ * ```
+ */
+export type ExtractSchema =
+  & {
+    [tag in keyof HTMLElementTagNameMap]?: ExtractField<
+      HTMLElementTagNameMap[tag]
+    >;
+  }
+  & { [selector: string]: AnyExtractField };
+
+/** The value read by {@link Field} from the element matched by {@link Selector} */
+type ExtractedValue<Selector, Field> = Field extends
+  { parse: (...args: never[]) => infer V } ? V
+  : Field extends { attribute: string } | { dataset: string } ? string
+  : Field extends
+    | { property: infer P extends keyof SelectedElement<Selector & string> }
+    | infer P extends keyof SelectedElement<Selector & string>
+    ? SelectedElement<Selector & string>[P]
+  : string;
+
+/** The object extracted by {@link S}, with `null` for fields whose element or attribute is missing and arrays for fields reading `all` elements */
+export type Extracted<S extends ExtractSchema> = {
+  -readonly [K in keyof S]: S[K] extends { all: true }
+    ? ExtractedValue<K, S[K]>[]
+    : ExtractedValue<K, S[K]> | null;
+};
+
+/**
+ * Reads the fields of {@link schema} from the elements within {@link source}, the reverse of applying a `TemplateElementMapper`.
+ *
+ * @param source The instance, nodes or root element (matching itself as well) to query
+ * @param schema The selectors with the fields to read
+ * @returns The extracted values keyed by selector
+ *
+ * @example
+ * ```ts
+ * const { h2, ".price": price } = extract(document.querySelector(".product")!, {
+ *   h2: "textContent",
+ *   ".price": { parse: Number },
+ * });
+ * ```
+ */
+export const extract = <S extends ExtractSchema>(
+  source: TemplateInstance | ReadonlyArray<ChildNode> | Element,
+  schema: S,
+): Extracted<S> => {
+  const nodes = isElement(source as Node)
+    ? [source as Element]
+    : "nodes" in source
+    ? source.nodes
+    : source as ReadonlyArray<ChildNode>;
+  const extracted: Record<string, unknown> = {};
+  for (const [selector, field] of Object.entries(schema)) {
+    if (field === undefined) continue;
+    const all = typeof field === "object" && field.all;
+    const elements = queryNodes(nodes, selector);
+    extracted[selector] = all
+      ? elements.map((el) => readField(el, field)).filter((v) => v !== null)
+      : elements.length
+      ? readField(elements[0], field)
+      : null;
+  }
+  return extracted as Extracted<S>;
+};
+
+/**
+ * Reads the fields of {@link schema} from each element matching {@link itemSelector} under {@link root}, e.g. from server-rendered lists which weren't created by a templater.
+ *
+ * @param root The element to search items in
+ * @param itemSelector The query selector of the items
+ * @param schema The selectors within each item with the fields to read
+ * @returns The extracted values of each item in document order
+ */
+export const extractAll = <S extends ExtractSchema>(
+  root: ParentNode,
+  itemSelector: string,
+  schema: S,
+): Extracted<S>[] =>
+  Array.from(
+    root.querySelectorAll(itemSelector),
+    (item) => extract(item, schema),
+  );
+
+/** Reads the raw value of {@link field} from {@link el} and parses it, or returns `null` if it's missing */
+const readField = (el: Element, field: AnyExtractField): unknown => {
+  const { property, attribute, dataset, parse } = typeof field === "string"
+    ? { property: field }
+    : field;
+  const raw = attribute !== undefined
+    ? el.getAttribute(attribute)
+    : dataset !== undefined
+    ? el.getAttribute(`data-${toKebab(dataset)}`)
+    : readAttribute(el, property ?? "textContent");
+  if (raw === null || raw === undefined) return null;
+  return parse ? parse(String(raw), el as never) : raw;
+};
@@ -0,0 +1,50 @@
+/// <reference lib="deno.ns" />
+import { DOMParser } from "@b-fuze/deno-dom";
+import { extract, extractAll } from "@md/html-templater";
+import { assertEquals } from "@std/assert";
+
+const parse = (html: string): Element =>
+  new DOMParser().parseFromString(`<body>${html}</body>`, "text/html")
+    .body as unknown as Element;
+
+Deno.test("extract() reads properties, attributes and dataset keys", () => {
+  const root = parse(
+    `<article data-product-id="7"><h2>Lamp</h2><a href="/lamp">More</a><span class="price">12.5</span></article>`,
+  );
+  const product = extract(root.querySelector("article")!, {
+    h2: "textContent",
+    a: { attribute: "href" },
+    ".price": { parse: Number },
+    article: { dataset: "productId", parse: (id) => parseInt(id) },
+    ".missing": "textContent",
+  });
+  const price: number | null = product[".price"];
+  assertEquals(price, 12.5);
+  assertEquals(product, {
+    h2: "Lamp",
+    a: "/lamp",
+    ".price": 12.5,
+    article: 7,
+    ".missing": null,
+  });
+});
+
+Deno.test("extract() reads all matching elements with all: true", () => {
+  const root = parse(`<ul><li>a</li><li>b</li><li data-x="1">c</li></ul>`);
+  const { li, "[data-x]": x } = extract(root, {
+    li: { all: true },
+    "[data-x]": { attribute: "data-x", all: true },
+  });
+  assertEquals(li, ["a", "b", "c"]);
+  assertEquals(x, ["1"]);
+});
+
+Deno.test("extractAll() extracts one object per matching item", () => {
+  const root = parse(
+    `<ul><li><b>One</b><i>1</i></li><li><b>Two</b><i>2</i></li></ul>`,
+  );
+  assertEquals(
+    extractAll(root, "li", { b: "textContent", i: { parse: Number } }),
+    [{ b: "One", i: 1 }, { b: "Two", i: 2 }],
+  );
+});
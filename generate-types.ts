@@ -0,0 +1,174 @@
+/// <reference lib="deno.ns" />
+/**
+ * Generates `TemplateElementMapper` compatible types for the `<template id>` elements of an HTML file.
+ *
+ * ```sh
+ * deno run -R -W jsr:@md/html-templater/generate-types templates.html --out templates.ts
+ * deno run -R jsr:@md/html-templater/generate-types templates.html --out templates.ts --check
+ * ```
+ *
+ * @module
+ */
+import { DOMParser } from "@b-fuze/deno-dom";
+import type { HTMLParser } from "./render-to-string.ts";
+
+/** Attributes handled by the declarative bindings, which aren't hooks for mappers */
+const BINDING_ATTRIBUTE = /^data-(bind:|if$|each$)/;
+/** Ids and class names which can be used in a selector without escaping */
+const SIMPLE_NAME = /^-?[_a-zA-Z][\w-]*$/;
+
+/**
+ * Generates the source of a module exporting one `TemplateElementMapper` compatible type per `<template id>` within {@link html}.
+ *
+ * The types are named after the template ids in PascalCase with a `Mapper` suffix and keyed by the tag names, ids, classes and `data-*` attributes of the elements within the templates, typed with their respective `HTMLElementTagNameMap` element types.
+ *
+ * @param html The HTML containing the templates
+ * @param options
+ * @param options.parser The HTML parser, defaults to the `DOMParser` of `@b-fuze/deno-dom`
+ * @param options.source The name of the HTML file mentioned in the header of the generated module
+ * @param options.importFrom The module specifier to import the types of the templater from, defaults to `@md/html-templater`
+ * @returns The source of the generated module
+ *
+ * @example
+ * ```ts
+ * const html = await Deno.readTextFile("templates.html");
+ * await Deno.writeTextFile("templates.ts", generateTypes(html, { source: "templates.html" }));
+ * ```
+ */
+export const generateTypes = (
+  html: string,
+  options?: {
+    parser?: HTMLParser;
+    source?: string;
+    importFrom?: string;
+  },
+): string => {
+  const parser = options?.parser ??
+    new DOMParser() as unknown as HTMLParser;
+  const document = parser.parseFromString(
+    `<body>${html}</body>`,
+    "text/html",
+  );
+  const templates = Array.from(document.querySelectorAll("template[id]"));
+
+  const types = templates.map((template) => {
+    const { content } = template as HTMLTemplateElement;
+    const keys = collectKeys(content);
+    const lines = Array.from(
+      keys,
+      ([key, tags]) =>
+        `  ${formatKey(key)}?: TemplateAttributeMapper<Tag<${
+          Array.from(tags, (tag) => JSON.stringify(tag)).join(" | ")
+        }>>;`,
+    );
+    if (hasBindings(content)) lines.push("  $data?: Record<string, unknown>;");
+    return [
+      `/** The mapper of \`<template id="${template.id}">\` */`,
+      `export type ${typeName(template.id)} = {`,
+      ...lines,
+      "};",
+    ].join("\n");
+  });
+
+  return [
+    `// Generated by @md/html-templater/generate-types${
+      options?.source ? ` from ${options.source}` : ""
+    }, do not edit.`,
+    `import type { TemplateAttributeMapper } from "${
+      options?.importFrom ?? "@md/html-templater"
+    }";`,
+    "/** The element type of a tag name, falling back to `HTMLElement` for custom elements */",
+    "type Tag<K extends string> = K extends keyof HTMLElementTagNameMap\n  ? HTMLElementTagNameMap[K]\n  : HTMLElement;",
+    ...types,
+  ].join("\n\n") + "\n";
+};
+
+/** Collects the selectors of all elements within {@link content} with the tag names of the elements they match in document order */
+const collectKeys = (content: DocumentFragment): Map<string, Set<string>> => {
+  const keys = new Map<string, Set<string>>();
+  const add = (key: string, tag: string) => {
+    const tags = keys.get(key) ?? new Set();
+    keys.set(key, tags.add(tag));
+  };
+
+  for (const element of Array.from(content.querySelectorAll("*"))) {
+    const tag = element.tagName.toLowerCase();
+    add(tag, tag);
+    if (SIMPLE_NAME.test(element.id)) add(`#${element.id}`, tag);
+    for (const className of Array.from(element.classList)) {
+      if (SIMPLE_NAME.test(className)) add(`.${className}`, tag);
+    }
+    for (const { name } of Array.from(element.attributes)) {
+      if (name.startsWith("data-") && !BINDING_ATTRIBUTE.test(name)) {
+        add(`[${name}]`, tag);
+      }
+    }
+  }
+  return keys;
+};
+
+/** Returns whether {@link content} uses declarative bindings, which are provided through `$data` */
+const hasBindings = (content: DocumentFragment): boolean =>
+  Array.from(content.childNodes).some((node) =>
+    /\{\{.*?\}\}/s.test(node.textContent ?? "")
+  ) ||
+  Array.from(content.querySelectorAll("*")).some((element) =>
+    Array.from(element.attributes).some(({ name, value }) =>
+      BINDING_ATTRIBUTE.test(name) || value.includes("{{")
+    )
+  );
+
+/** Quotes {@link key} if it isn't a valid identifier */
+const formatKey = (key: string): string =>
+  /^[a-z_$][\w$]*$/i.test(key) ? key : JSON.stringify(key);
+
+/** Converts a template id to the PascalCase name of its mapper type, e.g. `user-card` to `UserCardMapper` */
+const typeName = (id: string): string => {
+  const name = id
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  return `${/^\d/.test(name) ? "_" : ""}${name}Mapper`;
+};
+
+/**
+ * Runs the command line interface: writes the types generated for the HTML file in {@link args} or fails if they're stale with `--check`.
+ *
+ * @param args The command line arguments, e.g. `["templates.html", "--out", "templates.ts"]`
+ * @returns The exit code, `1` if the output is stale and `2` on invalid arguments
+ */
+export const main = async (args: string[]): Promise<number> => {
+  const check = args.includes("--check");
+  const outIndex = args.indexOf("--out");
+  const out = outIndex === -1 ? undefined : args[outIndex + 1];
+  const input = args.find((arg, i) =>
+    !arg.startsWith("--") && (outIndex === -1 || i !== outIndex + 1)
+  );
+  if (!input || (outIndex !== -1 && !out) || (check && !out)) {
+    console.error(
+      "Usage: generate-types <templates.html> [--out <templates.ts>] [--check]",
+    );
+    return 2;
+  }
+
+  const source = generateTypes(await Deno.readTextFile(input), {
+    source: input,
+  });
+  if (!out) {
+    console.log(source);
+    return 0;
+  }
+  if (check) {
+    const existing = await Deno.readTextFile(out).catch(() => null);
+    if (existing === source) return 0;
+    console.error(
+      `${out} is stale, regenerate it from ${input} by running without --check`,
+    );
+    return 1;
+  }
+  await Deno.writeTextFile(out, source);
+  return 0;
+};
+
+if (import.meta.main) Deno.exit(await main(Deno.args));
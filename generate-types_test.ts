@@ -0,0 +1,65 @@
+/// <reference lib="deno.ns" />
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { generateTypes, main } from "./generate-types.ts";
+
+Deno.test("generateTypes() emits a mapper type per template", () => {
+  const source = generateTypes(
+    `<template id="user-card">
+      <h2 id="name" class="title"></h2>
+      <img class="avatar" data-role="avatar">
+      <div class="avatar"><user-badge></user-badge></div>
+    </template>
+    <template id="row"><td>{{ label }}</td></template>
+    <template><p></p></template>`,
+    { source: "cards.html" },
+  );
+
+  assertStringIncludes(source, "from cards.html, do not edit.");
+  assertEquals(
+    source.slice(source.indexOf("/** The mapper")),
+    `/** The mapper of \`<template id="user-card">\` */
+export type UserCardMapper = {
+  h2?: TemplateAttributeMapper<Tag<"h2">>;
+  "#name"?: TemplateAttributeMapper<Tag<"h2">>;
+  ".title"?: TemplateAttributeMapper<Tag<"h2">>;
+  img?: TemplateAttributeMapper<Tag<"img">>;
+  ".avatar"?: TemplateAttributeMapper<Tag<"img" | "div">>;
+  "[data-role]"?: TemplateAttributeMapper<Tag<"img">>;
+  div?: TemplateAttributeMapper<Tag<"div">>;
+  "user-badge"?: TemplateAttributeMapper<Tag<"user-badge">>;
+};
+
+/** The mapper of \`<template id="row">\` */
+export type RowMapper = {
+  td?: TemplateAttributeMapper<Tag<"td">>;
+  $data?: Record<string, unknown>;
+};
+`,
+  );
+});
+
+Deno.test("main() writes and checks the generated types", async () => {
+  const input = await Deno.makeTempFile({ suffix: ".html" });
+  const out = await Deno.makeTempFile({ suffix: ".ts" });
+  const errors: unknown[] = [];
+  const { error } = console;
+  console.error = (...data: unknown[]) => errors.push(...data);
+
+  try {
+    await Deno.writeTextFile(input, `<template id="row"><td></td></template>`);
+    assertEquals(await main([input, "--out", out]), 0);
+    assertStringIncludes(await Deno.readTextFile(out), "export type RowMapper");
+    assertEquals(await main([input, "--out", out, "--check"]), 0);
+
+    await Deno.writeTextFile(input, `<template id="row"><th></th></template>`);
+    assertEquals(await main(["--check", "--out", out, input]), 1);
+    assertStringIncludes(String(errors[0]), `${out} is stale`);
+
+    assertEquals(await main([input, "--check"]), 2);
+    assertEquals(await main(["--out"]), 2);
+  } finally {
+    console.error = error;
+    await Deno.remove(input);
+    await Deno.remove(out);
+  }
+});
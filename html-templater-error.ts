@@ -1,8 +1,172 @@
-import type { HTMLTemplater } from "@md/html-templater";
+import type { HTMLTemplater, TemplateElementMapper } from "@md/html-templater";
+
+/** Identifies the kind of a {@link HTMLTemplaterError} without matching its message */
+export enum HTMLTemplaterErrorCode {
+  /** The error wasn't created with a specific code */
+  Unknown = "UNKNOWN",
+  /** No template matches the query selector */
+  TemplateNotFound = "TEMPLATE_NOT_FOUND",
+  /** The template has no parent element to append to or hydrate */
+  ParentMissing = "PARENT_MISSING",
+  /** No parent node matches the query selector passed to `appendTo` */
+  ParentNotFound = "PARENT_NOT_FOUND",
+  /** An option or argument has an invalid value */
+  InvalidOption = "INVALID_OPTION",
+  /** The instance isn't one of the instances of the templater */
+  InstanceNotFound = "INSTANCE_NOT_FOUND",
+  /** The same key was passed to `render` multiple times */
+  DuplicateKey = "DUPLICATE_KEY",
+  /** The markup to hydrate doesn't match the mappers */
+  HydrationMismatch = "HYDRATION_MISMATCH",
+  /** No `DOMParser` is available to parse HTML */
+  ParserUnavailable = "PARSER_UNAVAILABLE",
+  /** The template source couldn't be parsed */
+  ParseFailed = "PARSE_FAILED",
+  /** An expression of a declarative binding is invalid */
+  InvalidExpression = "INVALID_EXPRESSION",
+  /** No `customElements` registry is available to define elements in */
+  CustomElementsUnavailable = "CUSTOM_ELEMENTS_UNAVAILABLE",
+  /** A template with the name is already registered in the `TemplateRegistry` */
+  TemplateAlreadyRegistered = "TEMPLATE_ALREADY_REGISTERED",
+  /** No template with the name is registered in the `TemplateRegistry` */
+  TemplateNotRegistered = "TEMPLATE_NOT_REGISTERED",
+  /** Loading a partials file failed */
+  LoadFailed = "LOAD_FAILED",
+  /** A value was rejected in `safe` mode */
+  UnsafeValue = "UNSAFE_VALUE",
+  /** A mapper doesn't match the template in `strict` mode */
+  StrictViolation = "STRICT_VIOLATION",
+  /** A mapper function threw, which is available as `cause` */
+  MapperFailed = "MAPPER_FAILED",
+  /** Instances of a bulk instantiation failed with the `collect` error policy, whose errors are available as `cause` */
+  InstantiationFailed = "INSTANTIATION_FAILED",
+}
+
+/** How errors of single instances are handled when instantiating many at once: aborting the call, skipping the failing instances or skipping them and throwing all errors at the end */
+export type ErrorPolicy = "throw" | "skip" | "collect";
+
+/** The structured context of a {@link HTMLTemplaterError} */
+export type HTMLTemplaterErrorOptions = {
+  /** The kind of the error, defaults to {@link HTMLTemplaterErrorCode.Unknown} */
+  code?: HTMLTemplaterErrorCode;
+  /** The query selector of the mapper the error occurred in */
+  selector?: string | null;
+  /** The attribute or property the error occurred in */
+  attribute?: string | null;
+  /** The index of the instance the error occurred in */
+  index?: number | null;
+  /** The mapper of the instance the error occurred in */
+  mapper?: TemplateElementMapper | null;
+  /** The error which caused this error, e.g. thrown by a mapper function */
+  cause?: unknown;
+};
 
 export class HTMLTemplaterError extends Error {
-  constructor(public readonly htmlTemplater: HTMLTemplater, message: string) {
-    super(`HTMLTemplater Error: ${message}`);
+  /** The kind of the error */
+  public readonly code: HTMLTemplaterErrorCode;
+  /** The query selector of the mapper the error occurred in, if any */
+  public readonly selector: string | null;
+  /** The attribute or property the error occurred in, if any */
+  public readonly attribute: string | null;
+  /** The index of the instance the error occurred in (or the index it would have been added at), if known */
+  public readonly index: number | null;
+  /** The mapper of the instance the error occurred in, if known */
+  public readonly mapper: TemplateElementMapper | null;
+
+  /**
+   * @param htmlTemplater The templater the error occurred in or `null` if it occurred outside of one (e.g. in `renderToString`)
+   * @param message
+   * @param options The code and context of the error
+   */
+  constructor(
+    public readonly htmlTemplater: HTMLTemplater | null,
+    message: string,
+    options?: HTMLTemplaterErrorOptions,
+  ) {
+    super(
+      `HTMLTemplater Error: ${message}`,
+      options && "cause" in options ? { cause: options.cause } : undefined,
+    );
     this.name = "HTMLTemplaterError";
+    this.code = options?.code ?? HTMLTemplaterErrorCode.Unknown;
+    this.selector = options?.selector ?? null;
+    this.attribute = options?.attribute ?? null;
+    this.index = options?.index ?? null;
+    this.mapper = options?.mapper ?? null;
+  }
+}
+
+/** Raised in `safe` mode when a mapper or binding assigns a potentially dangerous value */
+export class HTMLTemplaterSafetyError extends HTMLTemplaterError {
+  /**
+   * @param htmlTemplater The templater the violation occurred in
+   * @param selector The query selector of the violating mapper or `null` if it occurred in a declarative binding
+   * @param attribute The attribute or property the value was assigned to
+   * @param reason Why the value was rejected
+   */
+  constructor(
+    htmlTemplater: HTMLTemplater | null,
+    selector: string | null,
+    attribute: string,
+    reason: string,
+  ) {
+    super(
+      htmlTemplater,
+      `Unsafe value for "${attribute}" ${
+        selector === null ? "in a binding" : `of "${selector}"`
+      }: ${reason}`,
+      { code: HTMLTemplaterErrorCode.UnsafeValue, selector, attribute },
+    );
+    this.name = "HTMLTemplaterSafetyError";
+  }
+}
+
+/** Raised (or collected in `warn` level) in `strict` mode when a mapper doesn't match the template */
+export class HTMLTemplaterStrictError extends HTMLTemplaterError {
+  /**
+   * @param htmlTemplater The templater the violation occurred in
+   * @param selector The query selector of the violating mapper
+   * @param attribute The unknown attribute or `null` if the selector matched an unexpected number of elements
+   * @param index The index of the instance in `instances` (or the index it's created at) or `null` if it's unknown
+   * @param reason What doesn't match
+   */
+  constructor(
+    htmlTemplater: HTMLTemplater | null,
+    selector: string,
+    attribute: string | null,
+    index: number | null,
+    reason: string,
+  ) {
+    super(
+      htmlTemplater,
+      `${attribute === null ? "" : `"${attribute}" of `}"${selector}"${
+        index === null ? "" : ` in instance ${index}`
+      } ${reason}`,
+      {
+        code: HTMLTemplaterErrorCode.StrictViolation,
+        selector,
+        attribute,
+        index,
+      },
+    );
+    this.name = "HTMLTemplaterStrictError";
   }
 }
+
+/** Wraps the {@link cause} thrown by the mapper function of {@link options.attribute} (or `null` for element mapper functions) with its context */
+export const mapperError = (
+  htmlTemplater: HTMLTemplater | null,
+  cause: unknown,
+  options: Omit<HTMLTemplaterErrorOptions, "code" | "cause">,
+): HTMLTemplaterError => {
+  const { selector, attribute, index } = options;
+  return new HTMLTemplaterError(
+    htmlTemplater,
+    `Mapper function${attribute ? ` for "${attribute}"` : ""}${
+      selector ? ` of "${selector}"` : ""
+    }${typeof index === "number" ? ` in instance ${index}` : ""} threw: ${
+      cause instanceof Error ? cause.message : String(cause)
+    }`,
+    { ...options, code: HTMLTemplaterErrorCode.MapperFailed, cause },
+  );
+};
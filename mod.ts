@@ -1,16 +1,133 @@
-import { HTMLTemplaterError } from "./html-templater-error.ts";
+import {
+  applyAttributeMapper,
+  type ApplyContext,
+  assignAttribute,
+  type AttributeHandler,
+  children,
+  findHandler,
+  hydrateAttributeMapper,
+  registerAttributeHandler,
+  selectorEntries,
+} from "./apply-attribute-mapper.ts";
+import {
+  defineElement,
+  type ElementState,
+  type TemplatedElement,
+} from "./define-element.ts";
+import {
+  extract,
+  extractAll,
+  type Extracted,
+  type ExtractField,
+  type ExtractSchema,
+} from "./extract.ts";
+import {
+  type ErrorPolicy,
+  HTMLTemplaterError,
+  HTMLTemplaterErrorCode,
+  type HTMLTemplaterErrorOptions,
+  HTMLTemplaterSafetyError,
+  HTMLTemplaterStrictError,
+  mapperError,
+} from "./html-templater-error.ts";
+import {
+  changesAttributes,
+  compileQuery,
+  isStructuralQuery,
+  resolveQuery,
+  type StructuralChange,
+  structuralChange,
+} from "./query-plan.ts";
+import type { ModelBinding } from "./model.ts";
+import { INSTANCE_MARKER, renderToString } from "./render-to-string.ts";
+import {
+  type AttributeGuard,
+  createGuard,
+  type SafeOptions,
+} from "./safety.ts";
+import {
+  isAttributeName,
+  maxMatchesFor,
+  type StrictLevel,
+  type StrictOptions,
+} from "./strict.ts";
+import {
+  adoptBindings,
+  applyBindings,
+  type CompiledTemplate,
+  compileTemplate,
+  resolveBindings,
+} from "./template-bindings.ts";
+import { TemplateInstance } from "./template-instance.ts";
+import { type TemplateLoader, TemplateRegistry } from "./template-registry.ts";
+import {
+  runTransition,
+  staggerDelay,
+  type TransitionClasses,
+  type TransitionKeyframes,
+  type TransitionOptions,
+} from "./transition.ts";
 import type {
+  AttributeHandlerValues,
   MaybeArray,
+  ReactiveValue,
   TemplateAttributeChange,
   TemplateAttributeMapper,
+  TemplateChildren,
   TemplateElementMapper,
+  TemplaterHooks,
+  TemplaterMapper,
+  TemplateScopedMapper,
 } from "./types.ts";
+import { isElement, nextFrame, queryNodes, SELF_SELECTOR } from "./utils.ts";
+import { type ScrollAlignment, VirtualList } from "./virtual-list.ts";
 
-export { HTMLTemplaterError };
+export {
+  assignAttribute,
+  children,
+  defineElement,
+  extract,
+  extractAll,
+  HTMLTemplaterError,
+  HTMLTemplaterErrorCode,
+  HTMLTemplaterSafetyError,
+  HTMLTemplaterStrictError,
+  registerAttributeHandler,
+  renderToString,
+  TemplateInstance,
+  TemplateRegistry,
+  VirtualList,
+};
 export type {
+  ApplyContext,
+  AttributeGuard,
+  AttributeHandler,
+  AttributeHandlerValues,
+  ElementState,
+  ErrorPolicy,
+  Extracted,
+  ExtractField,
+  ExtractSchema,
+  HTMLTemplaterErrorOptions,
+  ModelBinding,
+  ReactiveValue,
+  SafeOptions,
+  ScrollAlignment,
+  StrictLevel,
+  StrictOptions,
+  StructuralChange,
   TemplateAttributeChange,
   TemplateAttributeMapper,
+  TemplateChildren,
+  TemplatedElement,
   TemplateElementMapper,
+  TemplateLoader,
+  TemplaterHooks,
+  TemplaterMapper,
+  TemplateScopedMapper,
+  TransitionClasses,
+  TransitionKeyframes,
+  TransitionOptions,
 };
 
 /**
@@ -76,124 +193,207 @@ export class HTMLTemplater<
   T extends TemplateElementMapper = TemplateElementMapper,
 > {
   /** A list of all instances created from the template */
-  public instances: ChildNode[] = [];
+  public instances: TemplateInstance<T>[] = [];
+  /** Resolves once the nodes of the instances removed by the last {@link clear} were removed after their leave transitions and `onRemove` */
+  public cleared: Promise<void> = Promise.resolve();
   /** The underlying `HTMLTemplateElement` */
   public readonly template: HTMLTemplateElement;
   /** The parent node of the {@link template} */
   public readonly parent: ParentNode | null;
   /** If the instances should directly be appended to {@link parent} */
   public readonly appendToParent: boolean;
+  /** The node the instances currently live in, used by {@link render} to order them */
+  private container: (ParentNode & Node) | null;
+  /** The template content with its declarative bindings, parsed once and resolved on every clone */
+  private readonly compiled: CompiledTemplate;
+  /** If query selectors are resolved through child-index paths precomputed on the template content where possible */
+  public readonly compileQueries: boolean;
+  /** The child-index paths of the elements matching each query selector within the template content */
+  private readonly queryPlans = new Map<string, number[][]>();
+  /** The options of the `safe` mode or `null` if it's disabled */
+  public readonly safe: SafeOptions | null;
+  /** The guards of the `safe` mode by query selector (`null` for bindings) */
+  private readonly guards = new Map<string | null, AttributeGuard>();
+  /** The options of the `strict` mode or `null` if it's disabled */
+  public readonly strict: StrictOptions | null;
+  /** The violations collected in `strict` mode with the `warn` level */
+  public readonly warnings: HTMLTemplaterStrictError[] = [];
+  /** The comment in place of the template the instances are inserted in front of, if the `anchor` option is enabled */
+  private readonly anchor: Comment | null = null;
+  /** How errors of single instances are handled by {@link instantiate} and {@link instantiateAsync} */
+  public readonly errorPolicy: ErrorPolicy;
+  /** The index the instance currently being created will be added at, if known */
+  private creatingIndex: number | null = null;
+  /** The attribute handlers passed to the constructor by key, which take precedence over the globally registered ones */
+  public readonly attributeHandlers: ReadonlyMap<string, AttributeHandler>;
+  /** The enter and leave transitions of the instances, if any */
+  public readonly transition: TransitionOptions | null;
+  /** The lifecycle callbacks passed to the constructor */
+  public readonly hooks: TemplaterHooks<T>;
+  /** If event listeners are registered once on the container and dispatched to the instances instead of on every element */
+  public readonly delegateEvents: boolean;
+  /** Aborts the delegated listeners registered on the {@link container} */
+  private controller = new AbortController();
+  /** The delegated event listeners by element together with the instance they were created by */
+  private readonly delegatedListeners = new WeakMap<
+    Node,
+    {
+      listeners: Record<string, DelegatedListener>;
+      instance: TemplateInstance<T>;
+    }
+  >();
+  /** All event types with delegated listeners */
+  private readonly delegatedTypes = new Set<string>();
+  /** The event types currently listened to on the {@link container} */
+  private readonly listenedTypes = new Set<string>();
 
   /**
-   * @param template Either the template element or a selector string to find it
+   * @param template Either the template element, a selector string to find it, an HTML string (starting with `<`) or a {@link DocumentFragment} used as template content
    * @param options
-   * @param options.appendToParent Unless set to false, directly appends all instances to the templates parent.
+   * @param options.root The node to find a template selector in, e.g. a separately parsed document. Defaults to the global `document`.
+   * @param options.document The document to parse HTML string templates with. Defaults to the global `document`.
+   * @param options.appendToParent Unless set to false, directly appends all instances to the templates parent. Defaults to false for HTML strings and fragments as they have no parent.
    * @param options.removeFromDom Unless set to false, removes the template from the DOM only keeping the reference in this {@link HTMLTemplater}.
+   * @param options.anchor If set to true, a comment is placed after the template and instances are inserted in front of it instead of at the end of the {@link parent}, so they render in place of the template.
+   * @param options.delegateEvents If set to true, `eventListeners` are registered once per event type on the container the instances live in and dispatched to the listeners of the event target and its ancestors.
+   * @param options.compileQueries Unless set to false, query selectors are matched once on the template content and resolved by their child-index paths on every clone, falling back to live queries where earlier mappers or bindings may have changed the matches.
+   * @param options.safe If enabled, blocks inline event handlers and HTML sinks (unless sanitized), validates the schemes of URL attributes and uses Trusted Types if available ({@link SafeOptions}). Violations throw a {@link HTMLTemplaterSafetyError}.
+   * @param options.strict If enabled, reports query selectors matching no elements (or more than `maxMatches`) and attributes which are neither properties nor valid attribute names ({@link StrictOptions}). Violations throw a {@link HTMLTemplaterStrictError} or are collected in {@link warnings} with the `warn` level.
+   * @param options.errorPolicy How errors while creating single instances in {@link instantiate} and {@link instantiateAsync} are handled: `throw` (default) aborts the call, `skip` leaves out the failing instances and `collect` leaves them out and throws their errors as `cause` of a {@link HTMLTemplaterErrorCode.InstantiationFailed} error once all other instances were added.
+   * @param options.attributeHandlers Handles additional (or overrides built-in) attribute mapper keys for this templater only, see {@link registerAttributeHandler} to register them for all templaters ({@link AttributeHandler})
+   * @param options.transition The enter and leave transitions of added and removed instances as classes or keyframes, optionally staggered ({@link TransitionOptions}). Skipped while the user prefers reduced motion.
+   * @param options.onCreate Called with every template clone once mapped ({@link TemplaterHooks})
+   * @param options.onMount Called once the nodes of an instance were inserted into the DOM
+   * @param options.onUpdate Called after an instance was updated
+   * @param options.onModelChange Called after a form control bound by a `model` attribute changed the data of its instance
+   * @param options.onRemove Called before the nodes of an instance are removed, which is delayed until a returned promise settles
    */
   constructor(
-    template: string | HTMLTemplateElement,
-    options?: { appendToParent?: boolean; removeFromDom?: boolean },
+    template: string | HTMLTemplateElement | DocumentFragment,
+    options?: {
+      root?: ParentNode;
+      document?: Document;
+      appendToParent?: boolean;
+      removeFromDom?: boolean;
+      anchor?: boolean;
+      delegateEvents?: boolean;
+      compileQueries?: boolean;
+      safe?: boolean | SafeOptions;
+      strict?: boolean | StrictLevel | StrictOptions;
+      errorPolicy?: ErrorPolicy;
+      attributeHandlers?: ReadonlyArray<AttributeHandler>;
+      transition?: TransitionOptions;
+    } & TemplaterHooks<T>,
   ) {
-    const templateEl = typeof template === "string"
-      ? document.querySelector<HTMLTemplateElement>(template)
-      : template;
+    const templateEl = resolveTemplate(template, options);
     if (!templateEl) {
       throw new HTMLTemplaterError(
         this,
         `Template with query selector "${template}" not found`,
+        {
+          code: HTMLTemplaterErrorCode.TemplateNotFound,
+          selector: typeof template === "string" ? template : null,
+        },
       );
     }
     this.template = templateEl;
 
     this.parent = templateEl.parentElement;
-    this.appendToParent = options?.appendToParent ?? true;
+    this.appendToParent = options?.appendToParent ??
+      !isDetachedSource(template);
     if (this.appendToParent && !this.parent) {
       throw new HTMLTemplaterError(
         this,
         "`appendToParent` is true but template doesn't have a parent element",
+        { code: HTMLTemplaterErrorCode.ParentMissing },
       );
     }
 
+    this.container = this.appendToParent ? templateEl.parentElement : null;
+    this.delegateEvents = options?.delegateEvents ?? false;
+    this.compileQueries = options?.compileQueries ?? true;
+    const safe = options?.safe ?? false;
+    this.safe = safe === true ? {} : safe || null;
+    const strict = options?.strict ?? false;
+    this.strict = typeof strict === "object"
+      ? strict
+      : strict
+      ? { level: strict === true ? "throw" : strict }
+      : null;
+    this.errorPolicy = options?.errorPolicy ?? "throw";
+    this.transition = options?.transition ?? null;
+    this.attributeHandlers = new Map(
+      options?.attributeHandlers?.map((handler) => [handler.key, handler]),
+    );
+    const { onCreate, onMount, onUpdate, onRemove, onModelChange } = options ??
+      {};
+    this.hooks = { onCreate, onMount, onUpdate, onRemove, onModelChange };
+    this.compiled = compileTemplate(templateEl.content);
+
+    if (options?.anchor) {
+      if (!this.parent) {
+        throw new HTMLTemplaterError(
+          this,
+          "`anchor` is true but template doesn't have a parent element",
+          { code: HTMLTemplaterErrorCode.ParentMissing },
+        );
+      }
+      this.anchor = templateEl.ownerDocument.createComment(ANCHOR_MARKER);
+      templateEl.after(this.anchor);
+    }
     if (options?.removeFromDom !== false) this.template.remove();
   }
 
-  /** Deeply applies all attributes from the {@link attributeMapper} to {@link el} */
-  private applyAttributeMapper = (
-    el: Element,
-    attributeMapper: TemplateAttributeMapper<HTMLElement>,
-  ): void => {
-    // Handle null case removing the element
-    if (attributeMapper === null) return el.remove();
-    // Handle custom mapper
-    if (typeof attributeMapper === "function") {
-      attributeMapper(el);
-      return;
-    }
-    // Handle string case setting textContent
-    if (typeof attributeMapper === "string") {
-      attributeMapper = { textContent: attributeMapper };
-    }
-
-    for (const [attribute, value] of Object.entries(attributeMapper)) {
-      // Handle mapper functions
-      const resolvedValue = typeof value === "function"
-        ? value(el[attribute as keyof Element] ?? el.getAttribute(attribute))
-        : value;
-
-      // Remove attribute if value is false or null/undefined
-      if (resolvedValue === null) el.removeAttribute(attribute);
-      // Handle nested objects (style, dataset)
-      else if (
-        (attribute === "style" || attribute === "dataset") &&
-        typeof resolvedValue === "object" &&
-        el instanceof HTMLElement
-      ) {
-        Object.assign(el[attribute], resolvedValue);
-      } // Handle classList
-      else if (attribute === "classList") {
-        const { classList } = el;
-        if (Array.isArray(resolvedValue)) {
-          classList.add(...resolvedValue);
-        } // Handle `DOMTokenList` being returned and clear existing while adding new
-        else if (classList.constructor === resolvedValue.constructor) {
-          if (classList !== resolvedValue) {
-            classList.forEach((v) => classList.remove(v));
-            (resolvedValue as DOMTokenList).forEach((v) => classList.add(v));
-          }
-        } else if (typeof resolvedValue === "object") {
-          for (
-            const [className, shouldAdd] of Object.entries(resolvedValue)
-          ) {
-            if (shouldAdd) classList.add(className);
-            else classList.remove(className);
-          }
-        }
-      } // Handle eventListeners
-      else if (attribute === "eventListeners") {
-        for (const event in resolvedValue) {
-          el.addEventListener(event, resolvedValue[event]);
-        }
-      } //  Update attribute directly if it exists on the element
-      else if (attribute in el) {
-        // @ts-expect-error TypeScript can't guarantee the attribute exists on the element
-        el[attribute as keyof typeof el] = resolvedValue;
-      } // Add attribute otherwise
-      else el.setAttribute(attribute, String(resolvedValue));
+  /**
+   * Applies {@link mapper} to the given top-level {@link nodes} and all their descendants matching its query selectors.
+   *
+   * Nested instances created by `children` attributes are tracked under {@link instance}.
+   */
+  public applyElementMapper(
+    nodes: ReadonlyArray<ChildNode>,
+    mapper: T,
+    instance?: TemplateInstance<T>,
+  ): void {
+    for (const [query, attributes] of selectorEntries(mapper)) {
+      const elements = queryNodes(nodes, query);
+      this.checkMatches(query, elements.length, instance);
+      for (const el of elements) {
+        applyAttributeMapper(
+          el,
+          attributes,
+          this.applyContext(instance, query),
+        );
+      }
     }
-  };
-
-  /** Clones the template and applies {@link mapper} to the clone */
-  private createInstance(mapper: T): DocumentFragment {
-    const clone = this.template.content.cloneNode(true) as DocumentFragment;
+  }
 
-    // Apply all element mappers to the clone
-    for (const [query, attributes] of Object.entries(mapper)) {
-      clone
-        .querySelectorAll(query)
-        .forEach((el) => this.applyAttributeMapper(el, attributes));
+  /**
+   * Creates a {@link TemplateInstance} from a fresh clone of the template without adding it to {@link instances}.
+   *
+   * The bindings declared in the template are applied using `$data` before all query selectors of the {@link mapper}.
+   *
+   * @param mapper The mapper to build the instance from
+   * @param instance An existing instance to build the clone for instead of a new one, e.g. to replace its nodes
+   */
+  public createInstance(
+    mapper: T,
+    instance: TemplateInstance<T> = new TemplateInstance(this, [], mapper),
+  ): TemplateInstance<T> {
+    const { content, bindings: compiledBindings } = this.compiled;
+    const clone = content.cloneNode(true) as DocumentFragment;
+    const bindings = resolveBindings(clone, compiledBindings);
+    if (bindings.length) {
+      applyBindings(bindings, mapper.$data, this.applyContext(instance, null));
     }
 
-    return clone;
+    instance.mapper = mapper;
+    instance.bindings = bindings;
+    // Keep the item of instances created by `render` unless `$data` replaces it
+    if ("$data" in mapper) instance.data = mapper.$data;
+    this.mapClone(clone, mapper, instance);
+    this.hooks.onCreate?.(clone, mapper);
+    instance.nodes = Array.from(clone.childNodes);
+    return instance;
   }
 
   /** Creates a new instance(s) of the template and updates all the query selectors using the {@link TemplateElementMapper}(s). */
@@ -202,13 +402,451 @@ export class HTMLTemplater<
     // If no arguments provided, create a single instance w/o substitutions
     if (mapperArray.length === 0) mapperArray.push({} as T);
 
-    const fragments = mapperArray.map((mapper) => this.createInstance(mapper));
+    const errors: unknown[] = [];
+    this.instantiateAll(mapperArray, errors);
+    this.throwCollected(errors, mapperArray.length);
+    return this;
+  }
+
+  /**
+   * Creates instances for all {@link mappers} like {@link instantiate}, but in chunks yielding to the {@link options.scheduler} in between to keep the page responsive.
+   *
+   * If the {@link options.signal} is aborted, all instances created so far are removed and the promise rejects with the abort reason.
+   *
+   * @param mappers The mappers to create the instances from
+   * @param options
+   * @param options.chunkSize The number of instances created and appended at once, defaults to 100
+   * @param options.scheduler Resolves when the next chunk should be created, defaults to the next animation frame (or macrotask if unavailable)
+   * @param options.signal Aborts the instantiation
+   * @param options.onProgress Called after every chunk with the number of created instances
+   * @returns The created instances
+   *
+   * @example
+   * ```ts
+   * const controller = new AbortController();
+   * await templater.instantiateAsync(rows.map(toMapper), {
+   *   signal: controller.signal,
+   *   onProgress: (done, total) => progress.value = done / total,
+   * });
+   * ```
+   */
+  public async instantiateAsync(
+    mappers: ReadonlyArray<T>,
+    options?: {
+      chunkSize?: number;
+      scheduler?: () => Promise<unknown>;
+      signal?: AbortSignal;
+      onProgress?: (done: number, total: number) => void;
+    },
+  ): Promise<TemplateInstance<T>[]> {
+    const chunkSize = options?.chunkSize ?? 100;
+    if (!(chunkSize >= 1)) {
+      throw new HTMLTemplaterError(
+        this,
+        `\`chunkSize\` must be at least 1 but is ${chunkSize}`,
+        { code: HTMLTemplaterErrorCode.InvalidOption },
+      );
+    }
+    const scheduler = options?.scheduler ?? nextFrame;
+
+    const created: TemplateInstance<T>[] = [];
+    const errors: unknown[] = [];
+    try {
+      for (let start = 0; start < mappers.length; start += chunkSize) {
+        if (start) await scheduler();
+        options?.signal?.throwIfAborted();
+        created.push(
+          ...this.instantiateAll(
+            mappers.slice(start, start + chunkSize),
+            errors,
+          ),
+        );
+        options?.onProgress?.(
+          Math.min(start + chunkSize, mappers.length),
+          mappers.length,
+        );
+      }
+    } catch (error) {
+      for (const instance of created) instance.remove();
+      throw error;
+    }
+    this.throwCollected(errors, mappers.length);
+    return created;
+  }
+
+  /** Creates, tracks and (if enabled) appends the instances for {@link mappers}, collecting errors like {@link createAll} */
+  private instantiateAll(
+    mappers: ReadonlyArray<T>,
+    errors: unknown[],
+  ): TemplateInstance<T>[] {
+    const instances = this.createAll(mappers, this.instances.length, errors);
+
+    this.instances.push(...instances);
+    const { parent } = this;
+    if (this.appendToParent && parent) {
+      const anchor = this.anchor?.parentNode === parent ? this.anchor : null;
+      for (const { nodes } of instances) {
+        for (const node of nodes) parent.insertBefore(node, anchor);
+      }
+      this.enter(instances);
+    }
+    return instances;
+  }
+
+  /** Creates the instances for {@link mappers} which will be added at {@link index}, adding the errors of failing instances to {@link errors} unless the {@link errorPolicy} is `throw` */
+  private createAll(
+    mappers: ReadonlyArray<T>,
+    index: number,
+    errors: unknown[],
+  ): TemplateInstance<T>[] {
+    const instances: TemplateInstance<T>[] = [];
+    for (const mapper of mappers) {
+      try {
+        instances.push(
+          this.createInstanceAt(mapper, index + instances.length),
+        );
+      } catch (error) {
+        if (this.errorPolicy === "throw") {
+          // The instances created so far are never returned, so release their subscriptions
+          for (const instance of instances) instance.dispose();
+          throw error;
+        }
+        errors.push(error);
+      }
+    }
+    return instances;
+  }
+
+  /** Creates new instance(s) like {@link instantiate}, but inserts them before all other instances */
+  public prepend(...templateMappers: ReadonlyArray<MaybeArray<T>>): this {
+    return this.insertAt(0, ...templateMappers);
+  }
+
+  /**
+   * Creates new instance(s) like {@link instantiate}, but inserts them at {@link index} of the {@link instances} and their nodes at the matching position within the container the instances live in.
+   *
+   * @param index The position to insert at, negative values count from the end
+   *
+   * @example
+   * ```ts
+   * const index = todos.findIndex((todo) => todo.title > newTodo.title);
+   * templater.insertAt(index === -1 ? todos.length : index, toMapper(newTodo));
+   * ```
+   */
+  public insertAt(
+    index: number,
+    ...templateMappers: ReadonlyArray<MaybeArray<T>>
+  ): this {
+    const { length } = this.instances;
+    const start = index < 0
+      ? Math.max(0, length + index)
+      : Math.min(index, length);
+    const mapperArray = templateMappers.flat() as Array<T>;
+    if (mapperArray.length === 0) mapperArray.push({} as T);
+
+    const errors: unknown[] = [];
+    const instances = this.createAll(mapperArray, start, errors);
+    const reference = this.referenceAt(start);
+    this.instances.splice(start, 0, ...instances);
+    const { container } = this;
+    if (container) {
+      for (const { nodes } of instances) {
+        for (const node of nodes) container.insertBefore(node, reference);
+      }
+      this.enter(instances);
+    }
+    this.throwCollected(errors, mapperArray.length);
+    return this;
+  }
+
+  /** Creates new instance(s) like {@link instantiate}, but inserts them directly before the {@link reference} instance */
+  public insertBefore(
+    reference: TemplateInstance<T>,
+    ...templateMappers: ReadonlyArray<MaybeArray<T>>
+  ): this {
+    return this.insertAt(this.indexOf(reference), ...templateMappers);
+  }
 
-    this.instances.push(...fragments.flatMap((f) => Array.from(f.childNodes)));
-    if (this.appendToParent) this.parent?.append(...fragments);
+  /** Creates new instance(s) like {@link instantiate}, but inserts them directly after the {@link reference} instance */
+  public insertAfter(
+    reference: TemplateInstance<T>,
+    ...templateMappers: ReadonlyArray<MaybeArray<T>>
+  ): this {
+    return this.insertAt(this.indexOf(reference) + 1, ...templateMappers);
+  }
+
+  /** Returns the index of {@link instance} in {@link instances}, throwing if it isn't one of them */
+  private indexOf(instance: TemplateInstance<T>): number {
+    const index = this.instances.indexOf(instance);
+    if (index === -1) {
+      throw new HTMLTemplaterError(
+        this,
+        "The reference instance isn't one of the instances of this templater",
+        { code: HTMLTemplaterErrorCode.InstanceNotFound },
+      );
+    }
+    return index;
+  }
+
+  /** Returns the node to insert nodes in front of to place them at {@link index} of the {@link instances} within the {@link container} */
+  private referenceAt(index: number): Node | null {
+    const { container } = this;
+    const next = this.instances[index]?.nodes[0];
+    if (next && next.parentNode === container) return next;
+    // Insert in front of the node following the previous instance to stay in place among other children
+    const previous = this.instances[index - 1]?.nodes.at(-1);
+    if (previous && previous.parentNode === container) {
+      return previous.nextSibling;
+    }
+    return this.anchor?.parentNode === container ? this.anchor : null;
+  }
+
+  /** Throws the {@link errors} of the failing instances with the `collect` {@link errorPolicy} */
+  private throwCollected(errors: unknown[], total: number): void {
+    if (this.errorPolicy !== "collect" || !errors.length) return;
+    throw new HTMLTemplaterError(
+      this,
+      `${errors.length} of ${total} instances failed`,
+      {
+        code: HTMLTemplaterErrorCode.InstantiationFailed,
+        cause: new AggregateError(errors),
+      },
+    );
+  }
+
+  /**
+   * Reconciles the instances with {@link items}, identifying each item by its {@link options.key}.
+   *
+   * Instances are only created for new keys and removed for missing keys, while existing instances are moved to the new order keeping their nodes (and with them focus, animations and event listeners).
+   * The mapper is only re-applied through {@link TemplateInstance.update} to items which changed identity.
+   *
+   * Instances created by {@link instantiate} have no key and are removed on the first `render`.
+   *
+   * @example
+   * ```ts
+   * const templater = new HTMLTemplater("#todo-template");
+   * const options = {
+   *   key: (todo: Todo) => todo.id,
+   *   map: (todo: Todo) => ({ ".title": todo.title }),
+   * };
+   * templater.render(todos, options);
+   * // Later, only new, removed and changed todos are touched
+   * templater.render(todos.filter((todo) => !todo.done), options);
+   * ```
+   */
+  public render<I>(
+    items: ReadonlyArray<I>,
+    options: {
+      key: (item: I, index: number) => unknown;
+      map: (item: I, index: number) => T;
+    },
+  ): this {
+    const { key, map } = options;
+    const keys = items.map(key);
+    if (new Set(keys).size !== keys.length) {
+      const duplicate = keys.find((k, i) => keys.indexOf(k) !== i);
+      throw new HTMLTemplaterError(
+        this,
+        `Duplicate key "${String(duplicate)}" passed to render()`,
+        { code: HTMLTemplaterErrorCode.DuplicateKey },
+      );
+    }
+
+    const previous = new Map<unknown, TemplateInstance<T>>();
+    for (const instance of this.instances) {
+      if (instance.key !== undefined) previous.set(instance.key, instance);
+    }
+    const previousIndex = new Map(this.instances.map((inst, i) => [inst, i]));
+    const end = this.referenceAt(this.instances.length);
+
+    const instances = items.map((item, index) => {
+      const existing = previous.get(keys[index]);
+      if (existing) {
+        if (existing.data !== item) {
+          // Bound form controls read the new item while updating
+          existing.data = item;
+          existing.update(map(item, index));
+        }
+        return existing;
+      }
+      const instance = this.createInstanceAt(map(item, index), index, item);
+      instance.key = keys[index];
+      instance.data = item;
+      return instance;
+    });
+
+    const kept = new Set(instances);
+    const stale = this.instances.filter((instance) => !kept.has(instance));
+    this.instances = instances;
+    for (const instance of stale) instance.remove();
+
+    if (!this.container) return this;
+    this.reorderNodes(previousIndex, end);
+    this.enter(instances.filter((instance) => !previousIndex.has(instance)));
     return this;
   }
 
+  /**
+   * Sorts the {@link instances} with {@link compareFn} and moves their nodes into the new order, keeping the nodes of the longest run already in order in place.
+   *
+   * @example
+   * ```ts
+   * templater.sort((a, b) => (a.data as Todo).title.localeCompare((b.data as Todo).title));
+   * ```
+   */
+  public sort(
+    compareFn: (a: TemplateInstance<T>, b: TemplateInstance<T>) => number,
+  ): this {
+    const previousIndex = new Map(this.instances.map((inst, i) => [inst, i]));
+    const end = this.referenceAt(this.instances.length);
+    this.instances.sort(compareFn);
+    if (this.container) this.reorderNodes(previousIndex, end);
+    return this;
+  }
+
+  /**
+   * Reads the fields of {@link schema} from each of the {@link instances}, the reverse of instantiating them with mappers using the same selectors.
+   *
+   * @example
+   * ```ts
+   * const todos = templater.extract({
+   *   ".title": "textContent",
+   *   ".done": { property: "checked" },
+   *   "[data-id]": { dataset: "id", parse: Number },
+   * });
+   * ```
+   */
+  public extract<S extends ExtractSchema>(schema: S): Extracted<S>[] {
+    return this.instances.map((instance) => extract(instance, schema));
+  }
+
+  /** Moves the nodes of the {@link instances} into their order within the {@link container} in front of {@link end}, only moving the instances which aren't part of the longest run already in order by their {@link previousIndex} */
+  private reorderNodes(
+    previousIndex: Map<TemplateInstance<T>, number>,
+    end: Node | null,
+  ): void {
+    const { container, instances } = this;
+    if (!container) return;
+    const stable = longestIncreasingSubsequence(
+      instances.map((instance) => previousIndex.get(instance) ?? -1),
+    );
+    let reference = end;
+    for (let i = instances.length - 1; i >= 0; i--) {
+      const { nodes } = instances[i];
+      if (!stable.has(i)) {
+        for (const node of nodes) container.insertBefore(node, reference);
+      }
+      reference = nodes[0] ?? reference;
+    }
+  }
+
+  /**
+   * Adopts instances previously rendered by {@link renderToString} with `markers: true` within {@link parent} instead of creating new ones.
+   *
+   * Event listeners from the {@link mappers} are attached while other values are only compared against the existing markup. Mapper functions can't be compared as they modify values which were already modified on the server, so they are skipped.
+   *
+   * @param mappers The same mappers the instances were rendered with
+   * @param options
+   * @param options.onMismatch Called for every mismatch between markup and mapper after which the mapper value is applied. Throws the error if not provided.
+   *
+   * @example
+   * ```ts
+   * // Server
+   * const html = renderToString(source, todos.map(toMapper), { markers: true });
+   * // Client
+   * new HTMLTemplater("#todo-template").hydrate(todos.map(toMapper));
+   * ```
+   */
+  public hydrate(
+    mappers: MaybeArray<T>,
+    options?: { onMismatch?: (error: HTMLTemplaterError) => void },
+  ): this {
+    if (!this.parent) {
+      throw new HTMLTemplaterError(
+        this,
+        "Can't hydrate as the template doesn't have a parent element",
+        { code: HTMLTemplaterErrorCode.ParentMissing },
+      );
+    }
+    const onMismatch = options?.onMismatch ?? ((error) => {
+      throw error;
+    });
+
+    const groups = collectMarkedInstances(this.parent);
+    const mapperArray = [mappers].flat() as T[];
+    if (groups.length !== mapperArray.length) {
+      onMismatch(
+        new HTMLTemplaterError(
+          this,
+          `Found ${groups.length} rendered instances but ${mapperArray.length} mappers to hydrate`,
+          { code: HTMLTemplaterErrorCode.HydrationMismatch },
+        ),
+      );
+    }
+
+    const instances = groups
+      .slice(0, mapperArray.length)
+      .map((nodes, index) => {
+        const mapper = mapperArray[index];
+        return this.hydrateInstance(
+          nodes,
+          mapper,
+          (description, selector) =>
+            onMismatch(
+              new HTMLTemplaterError(
+                this,
+                `Hydration mismatch in instance ${index}: ${description}`,
+                {
+                  code: HTMLTemplaterErrorCode.HydrationMismatch,
+                  selector,
+                  index,
+                  mapper,
+                },
+              ),
+            ),
+        );
+      });
+
+    this.instances.push(...instances);
+    for (const instance of instances) this.hooks.onMount?.(instance);
+    return this;
+  }
+
+  /**
+   * Adopts the already rendered {@link nodes} as an instance of {@link mapper} like {@link hydrate} without adding it to {@link instances}, e.g. for nested instances rendered by `children` attributes.
+   *
+   * @param onMismatch Called with the description of every mismatch and the selector it occurred in
+   */
+  public hydrateInstance(
+    nodes: ChildNode[],
+    mapper: T,
+    onMismatch: (description: string, selector: string) => void,
+  ): TemplateInstance<T> {
+    const instance = new TemplateInstance(
+      this,
+      nodes,
+      mapper,
+      adoptBindings(nodes, this.compiled.bindings),
+    );
+    if ("$data" in mapper) instance.data = mapper.$data;
+    for (const [query, attributes] of selectorEntries(mapper)) {
+      const elements = queryNodes(nodes, query);
+      if (attributes !== null && elements.length === 0) {
+        onMismatch(`"${query}" matches no element`, query);
+      }
+      for (const el of elements) {
+        hydrateAttributeMapper(
+          el,
+          attributes,
+          (description) => onMismatch(`"${query}" ${description}`, query),
+          this.applyContext(instance, query),
+        );
+      }
+    }
+    instance.nodes = nodes.filter((node) => node.parentNode);
+    return instance;
+  }
+
   /** Appends all instances to the {@link parent} (can be query selector). Make sure to disable auto-append in the constructor (`new HTMLTemplater('query-selector', false)`) */
   public appendTo(parent: ParentNode | HTMLElement | string): this {
     const parentNode = typeof parent === "string"
@@ -216,17 +854,361 @@ export class HTMLTemplater<
       : parent;
 
     if (!parentNode) {
-      throw new HTMLTemplaterError(this, `Parent node "${parent}" not found`);
+      throw new HTMLTemplaterError(this, `Parent node "${parent}" not found`, {
+        code: HTMLTemplaterErrorCode.ParentNotFound,
+        selector: typeof parent === "string" ? parent : null,
+      });
     }
 
-    for (const instance of this.instances) parentNode.appendChild(instance);
+    for (const instance of this.instances) parentNode.append(...instance.nodes);
+    if (parentNode !== this.container) this.stopListening();
+    this.container = parentNode as ParentNode & Node;
+    this.listen();
+    this.enter(this.instances);
     return this;
   }
 
-  /** Removes all instances created by this templater from the DOM and clears the instances list. */
+  /**
+   * Removes all instances created by this templater from the DOM (respecting `onRemove` and staggered leave transitions), cancels their event listeners and clears the instances list.
+   *
+   * Await {@link cleared} to wait until the nodes of all instances were removed.
+   */
   public clear(): this {
-    for (const node of this.instances) node.remove();
+    const { instances } = this;
     this.instances = [];
+    instances.forEach((instance, i) =>
+      instance.remove(staggerDelay(this.transition, i, instances.length))
+    );
+    this.stopListening();
+    this.cleared = Promise.all(instances.map((instance) => instance.removed))
+      .then(() => {});
     return this;
   }
+
+  /** Reports the newly inserted {@link instances} through `onMount` and runs their staggered enter transitions */
+  private enter(instances: ReadonlyArray<TemplateInstance<T>>): void {
+    instances.forEach((instance, i) => {
+      this.hooks.onMount?.(instance);
+      runTransition(
+        instance.nodes,
+        this.transition,
+        "enter",
+        staggerDelay(this.transition, i, instances.length),
+      );
+    });
+  }
+
+  /**
+   * Applies all query selectors of {@link mapper} to the {@link clone} of the template content.
+   *
+   * Selectors are resolved through their precomputed child-index paths unless earlier selectors or bindings may have changed their matches, i.e. changed the nodes along a path, added elements or changed attributes a selector depends on.
+   */
+  private mapClone(
+    clone: DocumentFragment,
+    mapper: T,
+    instance: TemplateInstance<T>,
+  ): void {
+    const { bindings } = this.compiled;
+    // `null` if elements may have been added or moved anywhere
+    let changed: Set<Node> | null =
+      bindings.some(({ type }) =>
+          type === "if" || type === "each" || type === "bind"
+        )
+        ? null
+        : new Set();
+    let attributesChanged = bindings.some(({ type }) => type === "attribute");
+
+    for (const [query, attributes] of selectorEntries(mapper)) {
+      const self = query === SELF_SELECTOR;
+      const planned = !self && this.compileQueries && changed &&
+          (!attributesChanged || isStructuralQuery(query))
+        ? resolveQuery(clone, this.planQuery(query), changed)
+        : null;
+      const context = this.applyContext(instance, query);
+      const change = structuralChange(
+        attributes,
+        (key) => findHandler(key, context),
+      );
+      const elements = self
+        ? queryNodes(Array.from(clone.childNodes), query)
+        : planned ?? clone.querySelectorAll(query);
+      this.checkMatches(query, elements.length, instance);
+      for (const el of elements) {
+        if (change === "children") changed?.add(el);
+        else if (change === "siblings") changed?.add(el.parentNode!);
+        applyAttributeMapper(el, attributes, context);
+      }
+      if (change === "any") changed = null;
+      attributesChanged ||= changesAttributes(attributes);
+    }
+  }
+
+  /** Creates an instance like {@link createInstance} for the item {@link data} which will be added to {@link instances} at {@link index}, which is reported in `strict` mode */
+  private createInstanceAt(
+    mapper: T,
+    index: number,
+    data?: unknown,
+  ): TemplateInstance<T> {
+    const instance = new TemplateInstance(this, [], mapper);
+    instance.data = data;
+    this.creatingIndex = index;
+    try {
+      return this.createInstance(mapper, instance);
+    } catch (error) {
+      // Cancel the event listeners and nested instances mapped before the failure
+      instance.dispose();
+      throw error;
+    } finally {
+      this.creatingIndex = null;
+    }
+  }
+
+  /** Reports a violation in `strict` mode if {@link query} matched no elements or more than its `maxMatches` */
+  private checkMatches(
+    query: string,
+    count: number,
+    instance: TemplateInstance<T> | undefined,
+  ): void {
+    if (!this.strict) return;
+    const max = maxMatchesFor(this.strict, query);
+    if (count === 0) this.report(query, null, instance, "matches no element");
+    else if (count > max) {
+      this.report(
+        query,
+        null,
+        instance,
+        `matches ${count} elements but at most ${max} are expected`,
+      );
+    }
+  }
+
+  /** Throws the `strict` mode violation or collects it in {@link warnings} with the `warn` level */
+  private report(
+    query: string,
+    attribute: string | null,
+    instance: TemplateInstance<T> | undefined,
+    reason: string,
+  ): void {
+    const error = new HTMLTemplaterStrictError(
+      this,
+      query,
+      attribute,
+      this.instanceIndex(instance),
+      reason,
+    );
+    if (this.strict?.level === "warn") this.warnings.push(error);
+    else throw error;
+  }
+
+  /** Returns the index of {@link instance} in {@link instances} or the index it's created at if it isn't tracked yet */
+  private instanceIndex(
+    instance: TemplateInstance<T> | undefined,
+  ): number | null {
+    const tracked = instance ? this.instances.indexOf(instance) : -1;
+    return tracked === -1 ? this.creatingIndex : tracked;
+  }
+
+  /** Returns the (cached) child-index paths of the elements matching {@link query} in the template content */
+  private planQuery(query: string): number[][] {
+    let plan = this.queryPlans.get(query);
+    if (!plan) {
+      plan = compileQuery(this.compiled.content, query);
+      this.queryPlans.set(query, plan);
+    }
+    return plan;
+  }
+
+  /**
+   * Returns the context to apply the mapper of {@link query} (or `null` for bindings) for {@link instance} with, guarding values in `safe` mode, reporting unknown attributes in `strict` mode and delegating event listeners if enabled.
+   *
+   * Used by {@link TemplateInstance.update} to apply `$data` like {@link createInstance} does.
+   */
+  public applyContext(
+    instance: TemplateInstance<T> | undefined,
+    query: string | null,
+  ): ApplyContext {
+    const context: ApplyContext = {
+      instance,
+      handlers: this.attributeHandlers,
+      guard: this.guardFor(query),
+      wrapError: (error, attribute) =>
+        mapperError(this, error, {
+          selector: query,
+          attribute,
+          index: this.instanceIndex(instance),
+          mapper: instance?.mapper,
+        }),
+    };
+    if (query !== null) {
+      context.scope = (nested, matches) => {
+        const scoped = `${query} ${nested}`;
+        this.checkMatches(scoped, matches, instance);
+        return this.applyContext(instance, scoped);
+      };
+    }
+    if (this.strict && query !== null) {
+      context.onUnknownProperty = (_element, attribute) => {
+        if (isAttributeName(attribute)) return;
+        this.report(
+          query,
+          attribute,
+          instance,
+          "is neither a property of the element nor a valid attribute name",
+        );
+      };
+    }
+    if (!instance || !this.delegateEvents) return context;
+    return {
+      ...context,
+      onEventListeners: (element, listeners) => {
+        const existing = this.delegatedListeners.get(element);
+        this.delegatedListeners.set(element, {
+          listeners: {
+            ...existing?.listeners,
+            ...listeners as Record<string, DelegatedListener>,
+          },
+          instance,
+        });
+        for (const type in listeners) this.delegatedTypes.add(type);
+        this.listen();
+      },
+    };
+  }
+
+  /** Returns the (cached) guard for the mapper of {@link query} if `safe` mode is enabled */
+  private guardFor(query: string | null): AttributeGuard | undefined {
+    if (!this.safe) return undefined;
+    let guard = this.guards.get(query);
+    if (!guard) {
+      guard = createGuard(this, this.safe, query);
+      this.guards.set(query, guard);
+    }
+    return guard;
+  }
+
+  /** Registers a single capturing listener on the {@link container} for every delegated event type */
+  private listen(): void {
+    const { container } = this;
+    if (!container) return;
+    for (const type of this.delegatedTypes) {
+      if (this.listenedTypes.has(type)) continue;
+      container.addEventListener(type, this.dispatch, {
+        capture: true,
+        signal: this.controller.signal,
+      });
+      this.listenedTypes.add(type);
+    }
+  }
+
+  /** Removes all delegated listeners from the {@link container} */
+  private stopListening(): void {
+    this.controller.abort();
+    this.controller = new AbortController();
+    this.listenedTypes.clear();
+  }
+
+  /** Calls the delegated listeners of the event target and its ancestors within the {@link container}, innermost first */
+  private readonly dispatch = (event: Event): void => {
+    for (
+      let node = event.target as Node | null;
+      node && node !== this.container;
+      node = node.parentNode
+    ) {
+      const delegated = this.delegatedListeners.get(node);
+      if (!delegated) continue;
+      const { listeners, instance } = delegated;
+      listeners[event.type]?.call(node, event, instance.data, instance);
+    }
+  };
 }
+
+/** The content of the comment marking the position of the instances with the `anchor` option */
+const ANCHOR_MARKER = "templater-anchor";
+
+/** An event listener receiving the data and instance it was created by */
+type DelegatedListener = (
+  event: Event,
+  data: unknown,
+  instance: TemplateInstance,
+) => unknown;
+
+/** Checks if {@link template} is an HTML string or fragment, which has no parent to append to */
+const isDetachedSource = (
+  template: string | HTMLTemplateElement | DocumentFragment,
+): boolean =>
+  typeof template === "string"
+    ? template.trimStart().startsWith("<")
+    : !isElement(template);
+
+/** Finds the template element of a selector or wraps HTML strings and fragments in a new template element */
+const resolveTemplate = (
+  template: string | HTMLTemplateElement | DocumentFragment,
+  options?: { root?: ParentNode; document?: Document },
+): HTMLTemplateElement | null => {
+  if (typeof template === "string") {
+    if (!isDetachedSource(template)) {
+      return (options?.root ?? document).querySelector<HTMLTemplateElement>(
+        template,
+      );
+    }
+    const templateEl = (options?.document ?? document).createElement(
+      "template",
+    );
+    templateEl.innerHTML = template;
+    return templateEl;
+  }
+  if (isElement(template)) return template;
+  const templateEl = template.ownerDocument.createElement("template");
+  templateEl.content.append(template.cloneNode(true));
+  return templateEl;
+};
+
+/** Collects the nodes between instance marker comments within {@link parent} and removes the markers */
+const collectMarkedInstances = (parent: ParentNode): ChildNode[][] => {
+  const groups: ChildNode[][] = [];
+  let current: ChildNode[] | null = null;
+  for (const node of Array.from(parent.childNodes)) {
+    // Comment nodes
+    if (node.nodeType === 8) {
+      const { data } = node as Comment;
+      if (data === INSTANCE_MARKER) {
+        current = [];
+        node.remove();
+        continue;
+      }
+      if (data === `/${INSTANCE_MARKER}` && current) {
+        groups.push(current);
+        current = null;
+        node.remove();
+        continue;
+      }
+    }
+    current?.push(node);
+  }
+  return groups;
+};
+
+/** Returns the indices of the longest strictly increasing subsequence of {@link values}, ignoring negative values */
+const longestIncreasingSubsequence = (
+  values: ReadonlyArray<number>,
+): Set<number> => {
+  const predecessors: number[] = [];
+  // Index of the smallest tail value of all increasing subsequences per length
+  const tails: number[] = [];
+  values.forEach((value, i) => {
+    if (value < 0) return;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    predecessors[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+
+  const result = new Set<number>();
+  for (let i = tails.at(-1) ?? -1; i !== -1; i = predecessors[i]) result.add(i);
+  return result;
+};
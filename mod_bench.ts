@@ -0,0 +1,35 @@
+/// <reference lib="deno.ns" />
+import { DOMParser } from "@b-fuze/deno-dom";
+import { HTMLTemplater } from "@md/html-templater";
+
+const dom = new DOMParser().parseFromString(
+  `<body><template><article><h2></h2><img><p class="summary"></p><footer><a class="link"></a><span class="date"></span></footer></article></template></body>`,
+  "text/html",
+);
+globalThis.document = dom as unknown as Document;
+const template = dom.querySelector(
+  "template",
+) as unknown as HTMLTemplateElement;
+
+const mappers = Array.from({ length: 1000 }, (_, i) => ({
+  h2: `Title ${i}`,
+  img: { src: `image${i}.png`, alt: `Image ${i}` },
+  ".summary": `Summary ${i}`,
+  ".link": { href: `/posts/${i}`, textContent: "Read more" },
+  ".date": `2024-01-${i % 28 + 1}`,
+}));
+
+for (const compileQueries of [true, false]) {
+  Deno.bench({
+    name: compileQueries ? "compiled queries" : "live queries",
+    group: "instantiate 1000 instances",
+    baseline: compileQueries,
+    fn: () => {
+      new HTMLTemplater(template, {
+        appendToParent: false,
+        removeFromDom: false,
+        compileQueries,
+      }).instantiate(mappers);
+    },
+  });
+}
@@ -1,13 +1,34 @@
 /// <reference lib="deno.ns" />
 import { DOMParser, Element, type HTMLDocument } from "@b-fuze/deno-dom";
-import { HTMLTemplater, HTMLTemplaterError } from "@md/html-templater";
+import {
+  children,
+  HTMLTemplater,
+  HTMLTemplaterError,
+  HTMLTemplaterErrorCode,
+  HTMLTemplaterSafetyError,
+  HTMLTemplaterStrictError,
+  registerAttributeHandler,
+  renderToString,
+  type TemplateAttributeChange,
+  type TemplateChildren,
+  type TemplateElementMapper,
+} from "@md/html-templater";
 import {
   assert,
   assertEquals,
   assertInstanceOf,
+  assertRejects,
+  assertStringIncludes,
   assertThrows,
 } from "@std/assert";
 
+declare module "@md/html-templater" {
+  interface AttributeHandlerValues {
+    aria: TemplateAttributeChange<Record<string, string | null>>;
+    toggle: Record<string, boolean>;
+  }
+}
+
 /** Helper utility to add the `style` property to Elements as per open [issue](https://github.com/b-fuze/deno-dom/issues/194) */
 const addStyleToElement = (el: Element) => {
   const toCamel = (str: string) =>
@@ -45,6 +66,18 @@ const addStyleToElement = (el: Element) => {
   });
 };
 
+/** Parses {@link bodyHTML} into a document and defines the globals for HTMLTemplater as we're testing in Deno and not in a browser */
+const setupDocument = (bodyHTML: string): HTMLDocument => {
+  const dom = new DOMParser().parseFromString(
+    `<body>${bodyHTML}</body>`,
+    "text/html",
+  );
+  globalThis.document = dom as unknown as Document;
+  // @ts-ignore deno-dom doesn't have HTMLElement defined properly so simply use Element
+  globalThis.HTMLElement = Element as unknown as HTMLElement;
+  return dom;
+};
+
 /** A helper assert function to define input, transformation, and expected output of the HTMLTemplater */
 const assertTemplated = ({
   inputHTML,
@@ -55,10 +88,7 @@ const assertTemplated = ({
   runTemplater: (dom: HTMLDocument) => unknown;
   outputHTML: string;
 }) => {
-  const dom = new DOMParser().parseFromString(
-    `<body>${inputHTML}</body>`,
-    "text/html",
-  );
+  const dom = setupDocument(inputHTML);
 
   // Apply `style` property as attributes as per open [issue](https://github.com/b-fuze/deno-dom/issues/194)
   dom.querySelectorAll("*").forEach(addStyleToElement);
@@ -75,11 +105,6 @@ const assertTemplated = ({
     };
   });
 
-  // Define globals for HTMLTemplater as we're testing in Deno and not in a browser
-  globalThis.document = dom as unknown as Document;
-  // @ts-ignore deno-dom doesn't have HTMLElement defined properly so simply use Element
-  globalThis.HTMLElement = Element as unknown as HTMLElement;
-
   runTemplater(dom);
   assertEquals(dom.body.innerHTML.trim(), outputHTML.trim());
 };
@@ -106,6 +131,33 @@ Deno.test("Instantiates template from reference", () => {
   });
 });
 
+Deno.test("Instantiates template from HTML strings, fragments and other documents", () => {
+  assertTemplated({
+    inputHTML: `<div id="target"></div>`,
+    runTemplater: (dom) => {
+      const partials = new DOMParser().parseFromString(
+        `<template id="item"><i></i></template>`,
+        "text/html",
+      );
+      const fragment = dom.createDocumentFragment();
+      fragment.append(dom.createElement("b"));
+
+      const string = new HTMLTemplater(`<p class="x"></p>`);
+      assertEquals(string.appendToParent, false);
+      string.instantiate({ p: "String" }).appendTo("#target");
+      new HTMLTemplater(fragment as unknown as DocumentFragment)
+        .instantiate({ b: "Fragment" })
+        .appendTo("#target");
+      new HTMLTemplater("#item", {
+        root: partials as unknown as ParentNode,
+        appendToParent: false,
+      }).instantiate({ i: "Document" }).appendTo("#target");
+    },
+    outputHTML:
+      `<div id="target"><p class="x">String</p><b>Fragment</b><i>Document</i></div>`,
+  });
+});
+
 Deno.test("Keeps template in DOM when configured", () => {
   assertTemplated({
     inputHTML: `<template><div>Item</div></template>`,
@@ -215,11 +267,7 @@ Deno.test("classList TemplateAttributeMapper updates classList with custom logic
 });
 
 Deno.test("eventListeners TemplateAttributeMapper adds listeners with custom logic", () => {
-  const dom = new DOMParser().parseFromString(
-    `<body><template><input></template></body>`,
-    "text/html",
-  );
-  globalThis.document = dom as unknown as Document;
+  const dom = setupDocument(`<template><input></template>`);
 
   let inputEventFired = false;
   let clickEventFired = false;
@@ -242,6 +290,61 @@ Deno.test("eventListeners TemplateAttributeMapper adds listeners with custom log
   assert(clickEventFired, "Click event fired");
 });
 
+Deno.test("Removing instances cancels their event listeners", () => {
+  const dom = setupDocument(`<template><button></button></template>`);
+
+  const clicked: unknown[] = [];
+  const templater = new HTMLTemplater("template").instantiate(
+    [1, 2].map((id): TemplateElementMapper => ({
+      $data: { id },
+      button: { eventListeners: { click: (_, data) => clicked.push(data) } },
+    })),
+  );
+  const [first, second] = dom.querySelectorAll("button");
+
+  templater.instances[0].remove();
+  first.dispatchEvent(new Event("click"));
+  second.dispatchEvent(new Event("click"));
+  assertEquals(clicked, [{ id: 2 }]);
+
+  templater.clear();
+  second.dispatchEvent(new Event("click"));
+  assertEquals(clicked, [{ id: 2 }]);
+});
+
+Deno.test("delegateEvents dispatches to the matching instance", () => {
+  const dom = setupDocument(
+    `<ul><template><li><button></button></li></template></ul>`,
+  );
+
+  const clicked: unknown[] = [];
+  const templater = new HTMLTemplater("template", { delegateEvents: true })
+    .instantiate(
+      ["a", "b"].map((name): TemplateElementMapper => ({
+        $data: { name },
+        li: { eventListeners: { click: () => clicked.push("li") } },
+        button: {
+          eventListeners: {
+            click: (_, data, instance) => clicked.push(data, instance.index),
+          },
+        },
+      })),
+    );
+
+  dom.querySelectorAll("button")[1].dispatchEvent(
+    new Event("click", { bubbles: true }),
+  );
+  assertEquals(clicked, [{ name: "b" }, 1, "li"]);
+
+  templater.clear().instantiate({
+    button: { eventListeners: { click: () => clicked.push("new") } },
+  });
+  dom.querySelector("button")!.dispatchEvent(
+    new Event("click", { bubbles: true }),
+  );
+  assertEquals(clicked, [{ name: "b" }, 1, "li", "new"]);
+});
+
 Deno.test("string TemplateAttributeMapper sets textContent", () => {
   assertTemplated({
     inputHTML: `<template><p></p></template>`,
@@ -307,6 +410,761 @@ Deno.test("Can use array constructor", () => {
   });
 });
 
+Deno.test("Instances keep track of their nodes, index and mapper", () => {
+  assertTemplated({
+    inputHTML: `<template><p></p><br></template>`,
+    runTemplater: () => {
+      const templater = new HTMLTemplater("template").instantiate(
+        { p: "1" },
+        { p: "2" },
+      );
+      const [first, second] = templater.instances;
+      assertEquals(first.nodes.length, 2);
+      assertEquals(second.index, 1);
+      assertEquals(second.mapper, { p: "2" });
+    },
+    outputHTML: `<p>1</p><br><p>2</p><br>`,
+  });
+});
+
+Deno.test("Instances can be updated in place", () => {
+  assertTemplated({
+    inputHTML: `<template><p class="name"></p><input></template>`,
+    runTemplater: () => {
+      const templater = new HTMLTemplater("template").instantiate(
+        { ".name": "Alice", input: { value: "1" } },
+        { ".name": "Bob", input: { value: "2" } },
+      );
+      const [, second] = templater.instances;
+      second.update({ input: { value: "3" } });
+      assertEquals(second.mapper, { ".name": "Bob", input: { value: "3" } });
+    },
+    outputHTML:
+      `<p class="name">Alice</p><input value="1"><p class="name">Bob</p><input value="3">`,
+  });
+});
+
+Deno.test("Instances can be replaced and removed", () => {
+  assertTemplated({
+    inputHTML: `<template><p class="item"></p></template>`,
+    runTemplater: () => {
+      const templater = new HTMLTemplater("template").instantiate(
+        { p: "1" },
+        { p: "2" },
+        { p: "3" },
+      );
+      const [first, second] = templater.instances;
+      second.replace({ p: { textContent: (v) => v + "Two" } });
+      first.remove();
+      assertEquals(first.index, -1);
+      assertEquals(second.index, 0);
+      assertEquals(templater.instances.length, 2);
+    },
+    outputHTML: `<p class="item">Two</p><p class="item">3</p>`,
+  });
+});
+
+Deno.test("render() reconciles keyed instances", () => {
+  assertTemplated({
+    inputHTML: `<template><li></li></template><p>Before</p>`,
+    runTemplater: () => {
+      const [a, b, c, d] = ["a", "b", "c", "d"].map((id) => ({ id }));
+      const mapped: string[] = [];
+      const options = {
+        key: (item: { id: string }) => item.id,
+        map: (item: { id: string }) => {
+          mapped.push(item.id);
+          return { li: item.id };
+        },
+      };
+
+      const templater = new HTMLTemplater("template").render(
+        [a, b, c],
+        options,
+      );
+      const [instanceA, , instanceC] = templater.instances;
+      const nodeA = instanceA.nodes[0];
+
+      templater.render([c, { id: "a" }, d], options);
+      assertEquals(mapped, ["a", "b", "c", "a", "d"]);
+      assertEquals(templater.instances.length, 3);
+      assert(templater.instances[0] === instanceC, "Instance c was kept");
+      assert(templater.instances[1].nodes[0] === nodeA, "Node of a was kept");
+    },
+    outputHTML: `<p>Before</p><li>c</li><li>a</li><li>d</li>`,
+  });
+});
+
+Deno.test("render() throws on duplicate keys", () => {
+  const error = assertThrows(() =>
+    assertTemplated({
+      inputHTML: "<template><li></li></template>",
+      runTemplater: () =>
+        new HTMLTemplater("template").render(["a", "a"], {
+          key: (item) => item,
+          map: (item) => ({ li: item }),
+        }),
+      outputHTML: "",
+    })
+  );
+  assertInstanceOf(error, HTMLTemplaterError);
+  assertEquals(
+    error.message,
+    'HTMLTemplater Error: Duplicate key "a" passed to render()',
+  );
+});
+
+Deno.test("hydrate() adopts server-rendered instances", () => {
+  let clicks = 0;
+  const mappers: TemplateElementMapper[] = [
+    { p: "One" },
+    { p: "Two", button: { eventListeners: { click: () => clicks++ } } },
+  ];
+  const serverHTML = renderToString(`<p></p><button></button>`, mappers, {
+    parser: new DOMParser() as unknown as globalThis.DOMParser,
+    markers: true,
+    onEventListeners: () => {},
+  });
+
+  assertTemplated({
+    inputHTML: `<template><p></p><button></button></template>${serverHTML}`,
+    runTemplater: (dom) => {
+      const templater = new HTMLTemplater("template").hydrate(mappers);
+      assertEquals(templater.instances.length, 2);
+      assertEquals(templater.instances[1].nodes.length, 2);
+      dom.querySelectorAll("button")[1].dispatchEvent(new Event("click"));
+    },
+    outputHTML: `<p>One</p><button></button><p>Two</p><button></button>`,
+  });
+  assertEquals(clicks, 1);
+});
+
+Deno.test("hydrate() adopts the bindings of server-rendered instances", () => {
+  const template =
+    `<h2>{{ title }}</h2><ul><li data-each="tag in tags">{{ tag }}</li></ul><p>{{ note }}</p>`;
+  const mapper = {
+    $data: { title: "Server", tags: ["a", "b"], note: "" },
+  };
+  const serverHTML = renderToString(template, mapper, {
+    parser: new DOMParser() as unknown as globalThis.DOMParser,
+    markers: true,
+  });
+
+  assertTemplated({
+    inputHTML: `<template>${template}</template>${serverHTML}`,
+    runTemplater: () => {
+      const [instance] = new HTMLTemplater("template").hydrate(mapper)
+        .instances;
+      assertEquals(instance.data, mapper.$data);
+      instance.update({
+        $data: { title: "Client", tags: ["c"], note: "Updated" },
+      });
+    },
+    outputHTML: `<h2>Client</h2><ul><li>c</li><!----></ul><p>Updated</p>`,
+  });
+});
+
+Deno.test("update() applies $data within the context of the templater", () => {
+  assertTemplated({
+    inputHTML: `<template><a data-bind:href="link"></a></template>`,
+    runTemplater: () => {
+      const templater = new HTMLTemplater("template", { safe: true })
+        .instantiate({ $data: { link: "/home" } }, { $data: { link: "/a" } });
+      const [, second] = templater.instances;
+
+      const unsafe = assertThrows(() =>
+        second.update({ $data: { link: "javascript:alert(1)" } })
+      );
+      assertInstanceOf(unsafe, HTMLTemplaterSafetyError);
+      const failing = assertThrows(() =>
+        second.update({
+          $data: {
+            link: () => {
+              throw new Error("Failed");
+            },
+          },
+        })
+      );
+      assertInstanceOf(failing, HTMLTemplaterError);
+      assertEquals([failing.code, failing.index], [
+        HTMLTemplaterErrorCode.MapperFailed,
+        1,
+      ]);
+    },
+    outputHTML: `<a href="/home"></a><a href="/a"></a>`,
+  });
+});
+
+Deno.test("hydrate() adopts the nested instances of children", () => {
+  const serverHTML = renderToString(
+    `<div class="tags"><i class="tag">a</i><i class="tag">b</i></div>`,
+    {},
+    {
+      parser: new DOMParser() as unknown as globalThis.DOMParser,
+      markers: true,
+    },
+  );
+  const inputHTML =
+    `<template id="tag"><i class="tag"></i></template><template id="card"><div class="tags"></div></template>${serverHTML}`;
+  const toTags = (tags: HTMLTemplater<{ ".tag": string }>, names: string[]) =>
+    children(tags, names.map((name) => ({ ".tag": name })));
+
+  assertTemplated({
+    inputHTML,
+    runTemplater: () => {
+      const tags = new HTMLTemplater<{ ".tag": string }>("#tag", {
+        appendToParent: false,
+      });
+      const [card] = new HTMLTemplater("#card").hydrate({
+        ".tags": { children: toTags(tags, ["a", "b"]) },
+      }).instances;
+      assertEquals(tags.instances.length, 2);
+      assertEquals(card.children, tags.instances);
+
+      card.update({ ".tags": { children: toTags(tags, ["c"]) } });
+      assertEquals(tags.instances.length, 1);
+    },
+    outputHTML: `<div class="tags"><i class="tag">c</i></div>`,
+  });
+
+  const mismatches: string[] = [];
+  assertTemplated({
+    inputHTML,
+    runTemplater: () => {
+      const tags = new HTMLTemplater<{ ".tag": string }>("#tag", {
+        appendToParent: false,
+      });
+      new HTMLTemplater("#card").hydrate({
+        ".tags": { children: toTags(tags, ["a", "x", "y"]) },
+      }, { onMismatch: (error) => mismatches.push(error.message) });
+    },
+    outputHTML:
+      `<div class="tags"><i class="tag">a</i><i class="tag">x</i><i class="tag">y</i></div>`,
+  });
+  assertEquals(mismatches, [
+    `HTMLTemplater Error: Hydration mismatch in instance 0: ".tags" has 2 nested nodes but 3 children of 1 nodes`,
+  ]);
+});
+
+Deno.test("hydrate() reports mismatches", () => {
+  const serverHTML = renderToString(`<p></p>`, { p: "One" }, {
+    parser: new DOMParser() as unknown as globalThis.DOMParser,
+    markers: true,
+  });
+
+  const error = assertThrows(() =>
+    assertTemplated({
+      inputHTML: `<template><p></p></template>${serverHTML}`,
+      runTemplater: () => new HTMLTemplater("template").hydrate({ p: "Uno" }),
+      outputHTML: "",
+    })
+  );
+  assertInstanceOf(error, HTMLTemplaterError);
+  assertEquals(
+    error.message,
+    `HTMLTemplater Error: Hydration mismatch in instance 0: "p" doesn't match the mapper's textContent`,
+  );
+
+  const mismatches: HTMLTemplaterError[] = [];
+  assertTemplated({
+    inputHTML: `<template><p></p></template>${serverHTML}`,
+    runTemplater: () =>
+      new HTMLTemplater("template").hydrate([{ p: "Uno" }, { p: "Dos" }], {
+        onMismatch: (error) => mismatches.push(error),
+      }),
+    outputHTML: `<p>Uno</p>`,
+  });
+  assertEquals(mismatches.length, 2);
+});
+
+Deno.test("Declarative bindings interpolate $data", () => {
+  assertTemplated({
+    inputHTML:
+      `<template><a href="/users/{{ id }}">Hello {{ name }}!</a><img data-bind:src="image.url"></template>`,
+    runTemplater: () =>
+      new HTMLTemplater("template").instantiate({
+        $data: { id: 1, name: "Ann", image: { url: "ann.png" } },
+      }),
+    outputHTML: `<a href="/users/1">Hello Ann!</a><img src="ann.png">`,
+  });
+});
+
+Deno.test("Declarative bindings are applied before selectors and on update", () => {
+  assertTemplated({
+    inputHTML:
+      `<template><h2>{{ title }}</h2><p data-bind:class="kind">{{ count }}</p></template>`,
+    runTemplater: () => {
+      const templater = new HTMLTemplater("template").instantiate({
+        $data: { title: "Counter", count: 1, kind: "odd" },
+        h2: { textContent: (v) => v + "!" },
+      });
+      templater.instances[0].update({
+        $data: { title: "Ignored", count: 2, kind: "even" },
+      });
+      assertEquals(templater.instances[0].data, {
+        title: "Ignored",
+        count: 2,
+        kind: "even",
+      });
+    },
+    outputHTML: `<h2>Counter!</h2><p class="even">2</p>`,
+  });
+});
+
+Deno.test("data-if keeps or drops subtrees", () => {
+  assertTemplated({
+    inputHTML:
+      `<template><p data-if="user.admin">Admin</p><p data-if="!user.admin">{{ user.name }}</p></template>`,
+    runTemplater: () =>
+      new HTMLTemplater("template").instantiate(
+        { $data: { user: { admin: true, name: "Ann" } } },
+        { $data: { user: { admin: false, name: "Bob" } } },
+      ),
+    outputHTML: `<p>Admin</p><!----><!----><!----><p>Bob</p><!---->`,
+  });
+});
+
+Deno.test("data-each repeats subtrees with a scoped context", () => {
+  assertTemplated({
+    inputHTML:
+      `<template><ul><li data-each="tag in tags" data-if="tag !== 'hidden'">{{ $index }}: {{ tag }} of {{ name }}</li></ul></template>`,
+    runTemplater: () => {
+      const templater = new HTMLTemplater("template").instantiate({
+        $data: { name: "Post", tags: ["a", "hidden", "b"] },
+      });
+      assertEquals(
+        templater.instances[0].nodes[0].textContent,
+        "0: a of Post2: b of Post",
+      );
+      templater.instances[0].update({ $data: { name: "Post", tags: ["c"] } });
+    },
+    outputHTML: `<ul><li>0: c of Post</li><!----><!----></ul>`,
+  });
+});
+
+Deno.test("Top-level directives keep the instance nodes up to date", () => {
+  assertTemplated({
+    inputHTML: `<template><p data-if="show">Shown</p></template>`,
+    runTemplater: () => {
+      const templater = new HTMLTemplater("template").instantiate(
+        { $data: { show: false } },
+        { $data: { show: false } },
+      );
+      const [first, second] = templater.instances;
+      first.update({ $data: { show: true } });
+      second.update({ $data: { show: true } });
+      assertEquals(first.nodes.length, 2);
+      second.remove();
+    },
+    outputHTML: `<p>Shown</p><!---->`,
+  });
+});
+
+Deno.test("Nested templaters render children into the matched element", () => {
+  assertTemplated({
+    inputHTML:
+      `<template id="tag"><i class="tag"></i></template><template id="card"><h3></h3><p class="tags"></p></template>`,
+    runTemplater: () => {
+      const tags = new HTMLTemplater<{ ".tag": string }>("#tag", {
+        appendToParent: false,
+      });
+      const toChildren = (names: string[]) =>
+        children(tags, names.map((name) => ({ ".tag": name })));
+      const cards = new HTMLTemplater("#card").instantiate(
+        { h3: "A", ".tags": { children: toChildren(["x", "y"]) } },
+        { h3: "B", ".tags": { children: toChildren(["z"]) } },
+      );
+      const [first, second] = cards.instances;
+      assertEquals(first.children.length, 2);
+      assertEquals(tags.instances.length, 3);
+
+      first.update({ ".tags": { children: toChildren(["w"]) } });
+      assertEquals(first.children.map((child) => child.mapper), [
+        { ".tag": "w" },
+      ]);
+      second.remove();
+      assertEquals(tags.instances.length, 1);
+    },
+    outputHTML: `<h3>A</h3><p class="tags"><i class="tag">w</i></p>`,
+  });
+});
+
+Deno.test("children() infers the items from the nested templater", () => {
+  assertTemplated({
+    inputHTML: `<template id="tag"><i class="tag"></i></template>`,
+    runTemplater: () => {
+      const tags = new HTMLTemplater<{ ".tag": string }>("#tag", {
+        appendToParent: false,
+      });
+      const value: TemplateChildren<typeof tags> = children(tags, {
+        ".tag": "a",
+      });
+      assertEquals(value, { templater: tags, items: { ".tag": "a" } });
+      // @ts-expect-error The items have to match the mapper of the templater
+      children(tags, [{ ".tag": 1 }]);
+      // @ts-expect-error Unknown selectors are rejected as well
+      children(tags, [{ ".tag": "a", ".other": "b" }]);
+    },
+    outputHTML: ``,
+  });
+});
+
+Deno.test("clear() removes nested instances", () => {
+  assertTemplated({
+    inputHTML:
+      `<template id="tag"><i></i></template><template id="card"><p></p></template>`,
+    runTemplater: () => {
+      const tags = new HTMLTemplater("#tag", { appendToParent: false });
+      const cards = new HTMLTemplater("#card").instantiate({
+        p: { children: { templater: tags, items: [{ i: "x" }, { i: "y" }] } },
+      });
+      cards.clear();
+      assertEquals(tags.instances.length, 0);
+    },
+    outputHTML: ``,
+  });
+});
+
+Deno.test("Lifecycle hooks fire on create, mount, update and remove", () => {
+  assertTemplated({
+    inputHTML: `<template><p></p></template><div id="target"></div>`,
+    runTemplater: () => {
+      const calls: string[] = [];
+      const templater = new HTMLTemplater("template", {
+        appendToParent: false,
+        onCreate: (fragment, mapper) =>
+          calls.push(`create ${fragment.childNodes.length} ${mapper.p}`),
+        onMount: (instance) => calls.push(`mount ${instance.index}`),
+        onUpdate: (instance, mapper) =>
+          calls.push(`update ${instance.index} ${mapper.p}`),
+        onRemove: (instance) => {
+          calls.push(`remove ${instance.mapper.p}`);
+        },
+      }).instantiate({ p: "a" }, { p: "b" });
+      templater.appendTo("#target");
+      templater.instances[1].update({ p: "c" });
+      templater.instances[0].remove();
+      assertEquals(calls, [
+        "create 1 a",
+        "create 1 b",
+        "mount 0",
+        "mount 1",
+        "update 1 c",
+        "remove a",
+      ]);
+    },
+    outputHTML: `<div id="target"><p>c</p></div>`,
+  });
+});
+
+Deno.test("onRemove delays node removal until its promise settles", async () => {
+  const dom = setupDocument(`<template><p></p></template>`);
+
+  const { promise, resolve } = Promise.withResolvers<void>();
+  const templater = new HTMLTemplater("template", { onRemove: () => promise })
+    .instantiate({ p: "Leaving" });
+
+  templater.clear();
+  assertEquals(templater.instances.length, 0);
+  assertEquals(dom.body.innerHTML, "<p>Leaving</p>");
+
+  resolve();
+  await templater.cleared;
+  assertEquals(dom.body.innerHTML, "");
+});
+
+Deno.test("onRemove rejecting still removes the nodes", async () => {
+  const dom = setupDocument(`<template><p></p></template>`);
+
+  const templater = new HTMLTemplater("template", {
+    onRemove: () => Promise.reject(new Error("Failed to leave")),
+  }).instantiate({ p: "Leaving" });
+  const [instance] = templater.instances;
+
+  instance.remove();
+  assertEquals(dom.body.innerHTML, "<p>Leaving</p>");
+  await instance.removed;
+  assertEquals(dom.body.innerHTML, "");
+});
+
+Deno.test("transition runs staggered enter and leave classes", async () => {
+  const dom = setupDocument(`<template><p></p></template>`);
+
+  const delays: number[] = [];
+  const templater = new HTMLTemplater("template", {
+    transition: {
+      enter: { from: "enter-from", active: "enter-active" },
+      leave: { active: "leave-active", to: "leave-to" },
+      stagger: (index, count) => {
+        delays.push(index, count);
+        return 0;
+      },
+    },
+  }).instantiate({ p: "a" }, { p: "b" });
+  const [a, b] = dom.querySelectorAll("p");
+  assertEquals(delays, [0, 2, 1, 2]);
+  assertEquals([...a.classList], ["enter-from", "enter-active"]);
+
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assertEquals([...a.classList], []);
+  templater.clear();
+  assertEquals([...b.classList], ["leave-active"]);
+  assertEquals(dom.body.querySelectorAll("p").length, 2);
+
+  await templater.cleared;
+  assertEquals(dom.body.innerHTML, "");
+});
+
+Deno.test("transition runs the enter classes of instances appended by appendTo()", () => {
+  const dom = setupDocument(
+    `<div id="host"></div><template><p></p></template>`,
+  );
+
+  const mounted: unknown[] = [];
+  new HTMLTemplater("template", {
+    appendToParent: false,
+    transition: { enter: { from: "enter-from" } },
+    onMount: (instance) => mounted.push(instance.mapper),
+  }).instantiate({ p: "a" }).appendTo("#host");
+  const p = dom.querySelector("#host p")!;
+  assertEquals([...p.classList], ["enter-from"]);
+  assertEquals(mounted, [{ p: "a" }]);
+});
+
+Deno.test("transition is skipped if the user prefers reduced motion", () => {
+  const dom = setupDocument(`<template><p></p></template>`);
+  const { matchMedia } = globalThis;
+  globalThis.matchMedia = (query: string): MediaQueryList =>
+    Object.assign(new EventTarget(), {
+      matches: true,
+      media: query,
+      onchange: null,
+      addListener: () => {},
+      removeListener: () => {},
+    });
+
+  try {
+    const templater = new HTMLTemplater("template", {
+      transition: { enter: { from: "hidden" }, leave: { to: "hidden" } },
+    }).instantiate({ p: "a" });
+    assertEquals(dom.body.innerHTML, "<p>a</p>");
+    templater.clear();
+    assertEquals(dom.body.innerHTML, "");
+  } finally {
+    globalThis.matchMedia = matchMedia;
+  }
+});
+
+Deno.test("instantiateAsync() creates instances in chunks", async () => {
+  const dom = setupDocument(`<template><p></p></template>`);
+
+  const progress: number[] = [];
+  let frames = 0;
+  const templater = new HTMLTemplater("template");
+  const instances = await templater.instantiateAsync(
+    ["1", "2", "3", "4", "5"].map((p) => ({ p })),
+    {
+      chunkSize: 2,
+      scheduler: () => {
+        frames++;
+        return Promise.resolve();
+      },
+      onProgress: (done) => progress.push(done),
+    },
+  );
+
+  assertEquals(progress, [2, 4, 5]);
+  assertEquals(frames, 2);
+  assertEquals(instances, templater.instances);
+  assertEquals(dom.body.textContent, "12345");
+});
+
+Deno.test("instantiateAsync() removes created instances when aborted", async () => {
+  const dom = setupDocument(`<template><p></p></template>`);
+
+  const controller = new AbortController();
+  const templater = new HTMLTemplater("template").instantiate({ p: "0" });
+  const promise = templater.instantiateAsync(
+    ["1", "2", "3"].map((p) => ({ p })),
+    {
+      chunkSize: 1,
+      signal: controller.signal,
+      scheduler: () => Promise.resolve(),
+      onProgress: (done) => done === 2 && controller.abort(),
+    },
+  );
+
+  await assertRejects(() => promise);
+  assertEquals(templater.instances.length, 1);
+  assertEquals(dom.body.textContent, "0");
+});
+
+Deno.test("Compiled queries fall back to live queries after changes", () => {
+  for (const compileQueries of [true, false]) {
+    assertTemplated({
+      inputHTML:
+        `<template><p class="a"></p><i></i><p><b></b></p><span></span></template>`,
+      runTemplater: () =>
+        new HTMLTemplater("template", { compileQueries }).instantiate({
+          ".a": { classList: ["c"] },
+          ".c": "Changed",
+          i: null,
+          b: "Bold",
+          span: "Span",
+        }),
+      outputHTML:
+        `<p class="a c">Changed</p><p><b>Bold</b></p><span>Span</span>`,
+    });
+  }
+});
+
+Deno.test("compileQueries keeps using plans after mappers not changing attributes", () => {
+  const dom = setupDocument(
+    `<template><h2 class="title"></h2><p class="price"></p><button class="buy"></button><p class="note"></p></template>`,
+  );
+  const { content } = dom.querySelector(
+    "template",
+  ) as unknown as HTMLTemplateElement;
+  const queried: string[] = [];
+  const cloneNode = content.cloneNode.bind(content);
+  Object.defineProperty(content, "cloneNode", {
+    value: (deep?: boolean) => {
+      const clone = cloneNode(deep) as DocumentFragment;
+      const querySelectorAll = clone.querySelectorAll.bind(clone);
+      Object.defineProperty(clone, "querySelectorAll", {
+        value: (query: string) => {
+          queried.push(query);
+          return querySelectorAll(query);
+        },
+      });
+      return clone;
+    },
+  });
+
+  new HTMLTemplater("template").instantiate({
+    ".title": "Lamp",
+    ".price": { textContent: "12.50" },
+    ".buy": { eventListeners: { click: () => {} } },
+    ".note": { classList: ["sold-out"] },
+    ".sold-out": "Sold out",
+  });
+  // Only the selector after the `classList` change falls back to querying
+  assertEquals(queried, [".sold-out"]);
+  assertEquals(dom.querySelector(".sold-out")?.textContent, "Sold out");
+});
+
+Deno.test("compileQueries falls back to live queries after custom attribute handlers", () => {
+  assertTemplated({
+    inputHTML: `<template><section></section><span></span></template>`,
+    runTemplater: () =>
+      new HTMLTemplater("template", {
+        attributeHandlers: [
+          {
+            key: "divider",
+            apply: (element) =>
+              element.before(element.ownerDocument!.createElement("hr")),
+          },
+        ],
+      }).instantiate({
+        section: { divider: true },
+        span: "Span",
+      }),
+    outputHTML: `<hr><section></section><span>Span</span>`,
+  });
+});
+
+Deno.test("safe mode allows safe values and sanitizes HTML", () => {
+  assertTemplated({
+    inputHTML:
+      `<template><a></a><img><div></div><p title="{{ title }}"></p></template>`,
+    runTemplater: () =>
+      new HTMLTemplater("template", {
+        safe: { sanitizeHTML: (html) => html.replace(/<[^>]*>/g, "") },
+      }).instantiate({
+        $data: { title: "Title" },
+        a: { href: "/relative" },
+        img: { srcset: "small.png 1x, https://cdn.test/large.png 2x" },
+        div: {
+          "data-url": "javascript:ignored",
+          innerHTML: "<script>alert(1)</script>Text",
+        },
+      }),
+    outputHTML:
+      `<a href="/relative"></a><img srcset="small.png 1x, https://cdn.test/large.png 2x"><div data-url="javascript:ignored">alert(1)Text</div><p title="Title"></p>`,
+  });
+});
+
+Deno.test("safe mode throws on dangerous values", () => {
+  const cases: [string, TemplateElementMapper, string | null, string][] = [
+    [`<a></a>`, { a: { href: "java\tscript:alert(1)" } }, "a", "href"],
+    [`<img>`, { img: { srcset: "a.png, data:x 2x" } }, "img", "srcset"],
+    [`<div></div>`, { div: { innerHTML: "<b></b>" } }, "div", "innerHTML"],
+    [`<b></b>`, { b: { ["onclick" as string]: "alert(1)" } }, "b", "onclick"],
+    [
+      `<a href="{{ url }}"></a>`,
+      { $data: { url: "javascript:x" } },
+      null,
+      "href",
+    ],
+  ];
+  for (const [inputHTML, mapper, selector, attribute] of cases) {
+    const error = assertThrows(() =>
+      assertTemplated({
+        inputHTML: `<template>${inputHTML}</template>`,
+        runTemplater: () =>
+          new HTMLTemplater("template", { safe: true }).instantiate(mapper),
+        outputHTML: "",
+      })
+    );
+    assertInstanceOf(error, HTMLTemplaterSafetyError);
+    assertEquals([error.selector, error.attribute], [selector, attribute]);
+  }
+});
+
+Deno.test("strict mode throws on selectors matching nothing and unknown attributes", () => {
+  const cases: [TemplateElementMapper, string, string | null, string][] = [
+    [{ ".titel": "Title" }, ".titel", null, "matches no element"],
+    [{ li: "Item" }, "li", null, "matches 2 elements"],
+    [{ h2: { textContnet: "Title" } }, "h2", "textContnet", "valid attribute"],
+  ];
+  for (const [mapper, selector, attribute, reason] of cases) {
+    const error = assertThrows(() =>
+      assertTemplated({
+        inputHTML: `<template><h2></h2><li></li><li></li></template>`,
+        runTemplater: () =>
+          new HTMLTemplater("template", {
+            strict: { maxMatches: { li: 1 } },
+          }).instantiate({}, mapper),
+        outputHTML: "",
+      })
+    );
+    assertInstanceOf(error, HTMLTemplaterStrictError);
+    assertEquals([error.selector, error.attribute], [selector, attribute]);
+    assertEquals(error.index, 1);
+    assertStringIncludes(error.message, reason);
+  }
+});
+
+Deno.test("strict mode collects violations with the warn level", () => {
+  let templater: HTMLTemplater | undefined;
+  assertTemplated({
+    inputHTML: `<template><h2></h2></template>`,
+    runTemplater: () => {
+      templater = new HTMLTemplater("template", { strict: "warn" })
+        .instantiate({ h2: { "aria-label": "Title" }, ".missing": "x" });
+      templater.instances[0].update({ ".missing": "y" });
+    },
+    outputHTML: `<h2 aria-label="Title"></h2>`,
+  });
+  assertEquals(
+    templater?.warnings.map(({ message }) => message),
+    [
+      'HTMLTemplater Error: ".missing" in instance 0 matches no element',
+      'HTMLTemplater Error: ".missing" in instance 0 matches no element',
+    ],
+  );
+});
+
 Deno.test("Throws error when template selector not found", () => {
   const error = assertThrows(() =>
     assertTemplated({
@@ -320,6 +1178,7 @@ Deno.test("Throws error when template selector not found", () => {
     error.message,
     'HTMLTemplater Error: Template with query selector "#missing" not found',
   );
+  assertEquals(error.code, HTMLTemplaterErrorCode.TemplateNotFound);
 });
 
 Deno.test("Throws error when auto-append active and not in DOM", () => {
@@ -340,6 +1199,7 @@ Deno.test("Throws error when auto-append active and not in DOM", () => {
     error.message,
     "HTMLTemplater Error: `appendToParent` is true but template doesn't have a parent element",
   );
+  assertEquals(error.code, HTMLTemplaterErrorCode.ParentMissing);
 });
 
 Deno.test("Throws error when manually appending and selector not found", () => {
@@ -358,4 +1218,433 @@ Deno.test("Throws error when manually appending and selector not found", () => {
     error.message,
     'HTMLTemplater Error: Parent node "#missing" not found',
   );
+  assertEquals(error.code, HTMLTemplaterErrorCode.ParentNotFound);
+});
+
+Deno.test("Wraps errors thrown by mapper functions with their context", () => {
+  const cause = new Error("Missing title");
+  const mapper: TemplateElementMapper = {
+    h2: {
+      textContent: () => {
+        throw cause;
+      },
+    },
+  };
+  const error = assertThrows(() =>
+    assertTemplated({
+      inputHTML: "<template><h2></h2></template>",
+      runTemplater: () => new HTMLTemplater("template").instantiate({}, mapper),
+      outputHTML: "",
+    })
+  );
+  assertInstanceOf(error, HTMLTemplaterError);
+  assertEquals(error.code, HTMLTemplaterErrorCode.MapperFailed);
+  assertEquals(
+    [error.selector, error.attribute, error.index, error.mapper, error.cause],
+    ["h2", "textContent", 1, mapper, cause],
+  );
+  assertEquals(
+    error.message,
+    'HTMLTemplater Error: Mapper function for "textContent" of "h2" in instance 1 threw: Missing title',
+  );
+});
+
+Deno.test("errorPolicy skips or collects failing instances", () => {
+  const failing = (): never => {
+    throw new Error("Failed");
+  };
+  const mappers: TemplateElementMapper[] = [
+    { p: "A" },
+    { p: failing },
+    { p: "C" },
+  ];
+  assertTemplated({
+    inputHTML: "<template><p></p></template>",
+    runTemplater: () =>
+      new HTMLTemplater("template", { errorPolicy: "skip" }).instantiate(
+        mappers,
+      ),
+    outputHTML: "<p>A</p><p>C</p>",
+  });
+
+  let templater: HTMLTemplater | undefined;
+  const error = assertThrows(() =>
+    assertTemplated({
+      inputHTML: "<template><p></p></template>",
+      runTemplater: () => {
+        templater = new HTMLTemplater("template", { errorPolicy: "collect" });
+        templater.instantiate(mappers);
+      },
+      outputHTML: "",
+    })
+  );
+  assertInstanceOf(error, HTMLTemplaterError);
+  assertEquals(error.code, HTMLTemplaterErrorCode.InstantiationFailed);
+  assertInstanceOf(error.cause, AggregateError);
+  const [failed] = error.cause.errors;
+  assertInstanceOf(failed, HTMLTemplaterError);
+  assertEquals([failed.code, failed.index], [
+    HTMLTemplaterErrorCode.MapperFailed,
+    1,
+  ]);
+  assertEquals(templater?.instances.length, 2);
+});
+
+Deno.test("errorPolicy disposes the nested instances of failing instances", () => {
+  assertTemplated({
+    inputHTML:
+      `<template id="tag"><i></i></template><template id="card"><p></p><b></b></template>`,
+    runTemplater: () => {
+      const tags = new HTMLTemplater<{ i: string }>("#tag", {
+        appendToParent: false,
+      });
+      new HTMLTemplater("#card", { errorPolicy: "skip" }).instantiate({
+        p: { children: children(tags, { i: "a" }) },
+        b: () => {
+          throw new Error("Failed");
+        },
+      });
+      assertEquals(tags.instances.length, 0);
+    },
+    outputHTML: ``,
+  });
+});
+
+Deno.test("errorPolicy throw disposes the instances created before the failing one", () => {
+  const listeners = new Set<(value: string) => void>();
+  const text = {
+    subscribe: (listener: (value: string) => void) => {
+      listeners.add(listener);
+      listener("Live");
+      return () => listeners.delete(listener);
+    },
+  };
+  assertTemplated({
+    inputHTML: `<template><p></p></template>`,
+    runTemplater: () => {
+      const templater = new HTMLTemplater("template");
+      const error = assertThrows(() =>
+        templater.instantiate({ p: { textContent: text } }, {
+          p: () => {
+            throw new Error("Failed");
+          },
+        })
+      );
+      assertInstanceOf(error, HTMLTemplaterError);
+      assertEquals(templater.instances.length, 0);
+      assertEquals(listeners.size, 0);
+    },
+    outputHTML: ``,
+  });
+});
+
+Deno.test("Inserts instances at positions and keeps instances in order", () => {
+  let templater: HTMLTemplater<{ p: string }> | undefined;
+  assertTemplated({
+    inputHTML: `<template><p></p></template><footer></footer>`,
+    runTemplater: () => {
+      templater = new HTMLTemplater<{ p: string }>("template", { anchor: true })
+        .instantiate({ p: "A" }, { p: "C" });
+      templater.insertAt(1, { p: "B" }).prepend({ p: "Z" });
+      templater.insertAfter(templater.instances[3], { p: "D" });
+      templater.insertBefore(templater.instances[0], { p: "Y" });
+    },
+    outputHTML:
+      `<p>Y</p><p>Z</p><p>A</p><p>B</p><p>C</p><p>D</p><!--templater-anchor--><footer></footer>`,
+  });
+  assertEquals(
+    templater?.instances.map(({ mapper }) => mapper.p),
+    ["Y", "Z", "A", "B", "C", "D"],
+  );
+});
+
+Deno.test("Moves and sorts instances in the DOM", () => {
+  let templater: HTMLTemplater<{ p: string }> | undefined;
+  assertTemplated({
+    inputHTML: `<template><p></p></template>`,
+    runTemplater: () => {
+      templater = new HTMLTemplater<{ p: string }>("template")
+        .instantiate(["B", "D", "A", "C"].map((p) => ({ p })));
+      templater.instances[2].moveTo(0);
+      assertEquals(
+        templater.instances.map(({ mapper }) => mapper.p),
+        ["A", "B", "D", "C"],
+      );
+      templater.sort((a, b) => b.mapper.p.localeCompare(a.mapper.p));
+    },
+    outputHTML: `<p>D</p><p>C</p><p>B</p><p>A</p>`,
+  });
+  assertEquals(
+    templater?.instances.map(({ mapper }) => mapper.p),
+    ["D", "C", "B", "A"],
+  );
+});
+
+Deno.test("Reactive values patch their attribute until the instance is removed", () => {
+  /** A minimal store emitting its current value on subscription */
+  const store = <V>(value: V) => {
+    const listeners = new Set<(value: V) => void>();
+    return {
+      set: (next: V) => listeners.forEach((listener) => listener(value = next)),
+      subscribe: (listener: (value: V) => void) => {
+        listeners.add(listener);
+        listener(value);
+        return () => listeners.delete(listener);
+      },
+      listeners,
+    };
+  };
+  /** A minimal signal notifying watchers without passing the value */
+  let current = "a";
+  const watchers = new Set<() => void>();
+  const signal = {
+    get: () => current,
+    watch: (watcher: () => void) => {
+      watchers.add(watcher);
+      return () => watchers.delete(watcher);
+    },
+  };
+  const title = store("Hello");
+
+  let templater: HTMLTemplater | undefined;
+  assertTemplated({
+    inputHTML: `<template><h2></h2><p></p></template>`,
+    runTemplater: () => {
+      templater = new HTMLTemplater("template").instantiate({
+        h2: { textContent: title },
+        p: { title: signal, textContent: "Static" },
+      });
+      title.set("World");
+      current = "b";
+      watchers.forEach((watcher) => watcher());
+    },
+    outputHTML: `<h2>World</h2><p title="b">Static</p>`,
+  });
+
+  templater?.instances[0].update({ h2: "Replaced" });
+  assertEquals(title.listeners.size, 0);
+  templater?.clear();
+  assertEquals(watchers.size, 0);
+});
+
+/** Adds the `value` property (reflected as attribute) and `setCustomValidity()` (setting `validationMessage`) to the inputs and the `selected` property to the options within the clones of the template in {@link dom}, as deno-dom lacks them */
+const addFormControlProperties = (dom: HTMLDocument) => {
+  const { content } = dom.querySelector(
+    "template",
+  ) as unknown as HTMLTemplateElement;
+  const cloneNode = content.cloneNode.bind(content);
+  Object.defineProperty(content, "cloneNode", {
+    value: (deep?: boolean) => {
+      const clone = cloneNode(deep) as DocumentFragment;
+      for (const input of clone.querySelectorAll("input")) {
+        Object.defineProperties(input, {
+          value: {
+            get: () => input.getAttribute("value") ?? "",
+            set: (value: string) => input.setAttribute("value", value),
+          },
+          validationMessage: { value: "", writable: true },
+          setCustomValidity: {
+            value: (message: string) =>
+              Object.assign(input, { validationMessage: message }),
+          },
+        });
+      }
+      for (const option of clone.querySelectorAll("option")) {
+        Object.defineProperty(option, "selected", {
+          get: () => option.hasAttribute("selected"),
+          set: (selected: boolean) =>
+            option.toggleAttribute("selected", selected),
+        });
+      }
+      return clone;
+    },
+  });
+};
+
+Deno.test("model binds form controls to the data of their instance", () => {
+  const dom = setupDocument(
+    `<template><input class="name"><input class="age" type="number"><input class="active" type="checkbox"></template>`,
+  );
+  addFormControlProperties(dom);
+  type Row = { name: string; age: number | null; active: boolean };
+  const rows: Row[] = [{ name: "Alice", age: 30, active: true }];
+  const changes: [string, unknown][] = [];
+
+  const templater = new HTMLTemplater("template", {
+    onModelChange: (_instance, path, value) => changes.push([path, value]),
+  }).render(rows, {
+    key: (row) => row.name,
+    map: () => ({
+      ".name": {
+        model: { path: "name", validate: (value) => value ? null : "Required" },
+      },
+      ".age": { model: "age" },
+      ".active": { model: "active" },
+    }),
+  });
+  const age = dom.querySelector(".age") as unknown as HTMLInputElement;
+  assertEquals(age.value, "30");
+  age.value = "31";
+  age.dispatchEvent(new Event("input"));
+
+  assertEquals(rows[0].age, 31);
+  assertEquals(changes, [["age", 31]]);
+  assertEquals(templater.instances[0].readModel(), {
+    name: "Alice",
+    age: 31,
+    active: true,
+  });
+
+  age.value = "";
+  age.dispatchEvent(new Event("input"));
+  assertEquals(rows[0].age, null);
+});
+
+Deno.test("model validates controls through setCustomValidity()", () => {
+  const dom = setupDocument(`<template><input class="name"></template>`);
+  addFormControlProperties(dom);
+  const validated: unknown[] = [];
+  new HTMLTemplater("template").instantiate({
+    $data: { name: "" },
+    ".name": {
+      model: {
+        path: "name",
+        validate: (value, instance) => {
+          validated.push(value, structuredClone(instance.data));
+          return value ? null : "Required";
+        },
+      },
+    },
+  });
+  const name = dom.querySelector(".name") as unknown as HTMLInputElement;
+  assertEquals(name.validationMessage, "Required");
+
+  name.value = "Bob";
+  name.dispatchEvent(new Event("input"));
+  assertEquals(name.validationMessage, "");
+  assertEquals(validated, ["", { name: "" }, "Bob", { name: "Bob" }]);
+});
+
+Deno.test("model coerces dates and multi-selects", () => {
+  const dom = setupDocument(
+    `<template><input class="due" type="date"><select class="tags" multiple><option value="a">A</option><option value="b">B</option><option value="c">C</option></select></template>`,
+  );
+  addFormControlProperties(dom);
+  const data = { due: new Date("2024-01-02"), tags: ["a", "c"] };
+  const templater = new HTMLTemplater("template").instantiate({
+    $data: data,
+    ".due": { model: "due" },
+    ".tags": { model: "tags" },
+  });
+  const due = dom.querySelector(".due") as unknown as HTMLInputElement;
+  const options = Array.from(
+    dom.querySelectorAll("option"),
+  ) as unknown as HTMLOptionElement[];
+  assertEquals(due.value, "2024-01-02");
+  assertEquals(
+    options.map((option) => option.selected),
+    [true, false, true],
+  );
+
+  due.value = "2024-03-04";
+  due.dispatchEvent(new Event("input"));
+  options[1].selected = true;
+  options[2].selected = false;
+  dom.querySelector(".tags")!.dispatchEvent(new Event("change"));
+  assertEquals(data, { due: new Date("2024-03-04"), tags: ["a", "b"] });
+
+  due.value = "";
+  due.dispatchEvent(new Event("input"));
+  assertEquals(templater.instances[0].readModel(), {
+    due: null,
+    tags: ["a", "b"],
+  });
+});
+
+Deno.test("Attribute handlers handle custom keys globally and per templater", () => {
+  const dom = setupDocument(
+    `<template><button aria-label="Close"></button></template>`,
+  );
+  const unregister = registerAttributeHandler<Record<string, string | null>>({
+    key: "aria",
+    apply: (element, aria) => {
+      for (const [name, value] of Object.entries(aria)) {
+        if (value === null) element.removeAttribute(`aria-${name}`);
+        else element.setAttribute(`aria-${name}`, value);
+      }
+    },
+    read: (element) => ({ label: element.getAttribute("aria-label") }),
+  });
+  const templater = new HTMLTemplater("template", {
+    attributeHandlers: [{
+      key: "toggle",
+      apply: (element, toggle: Record<string, boolean>) => {
+        for (const [name, force] of Object.entries(toggle)) {
+          element.toggleAttribute(name, force);
+        }
+      },
+    }],
+  });
+
+  try {
+    templater.instantiate({
+      button: {
+        aria: (aria) => ({ label: `${aria.label}!`, pressed: "true" }),
+        toggle: { disabled: true, hidden: false },
+        classList: ["built-in"],
+      },
+    });
+  } finally {
+    unregister();
+  }
+  const button = dom.querySelector("button")!;
+  assertEquals(button.getAttribute("aria-label"), "Close!");
+  assertEquals(button.getAttribute("aria-pressed"), "true");
+  assert(button.hasAttribute("disabled") && !button.hasAttribute("hidden"));
+  assertEquals(button.className, "built-in");
+
+  // Unregistered handlers aren't applied anymore
+  templater.instances[0].update({ button: { aria: { label: "Open" } } });
+  assertEquals(button.getAttribute("aria-label"), "Close!");
+});
+
+Deno.test("$self maps the top-level elements and $children scopes nested mappers", () => {
+  const dom = setupDocument(
+    `<template><div class="card"><div class="header"><h2></h2></div><h2></h2></div></template>`,
+  );
+
+  const [card] = new HTMLTemplater("template").instantiate({
+    $self: { classList: ["mapped"] },
+    ".header": {
+      $children: { h2: "Scoped", $self: { "data-scope": "header" } },
+    },
+  }).instances;
+  card.update({ $self: { "data-updated": "" } });
+
+  const root = dom.querySelector(".card")!;
+  assertEquals(root.className, "card mapped");
+  assert(root.hasAttribute("data-updated"));
+  assertEquals(
+    dom.querySelector(".header")!.getAttribute("data-scope"),
+    "header",
+  );
+  const [scoped, unscoped] = dom.querySelectorAll("h2");
+  assertEquals([scoped.textContent, unscoped.textContent], ["Scoped", ""]);
+});
+
+Deno.test("$children reports nested selectors in strict mode", () => {
+  assertTemplated({
+    inputHTML: `<template><div class="header"><h2></h2></div></template>`,
+    runTemplater: () => {
+      const error = assertThrows(
+        () =>
+          new HTMLTemplater("template", { strict: true }).instantiate({
+            ".header": { $children: { h3: "Missing" } },
+          }),
+        HTMLTemplaterStrictError,
+      );
+      assertEquals(error.selector, ".header h3");
+    },
+    outputHTML: "",
+  });
 });
@@ -0,0 +1,206 @@
+import type { TemplateInstance } from "./template-instance.ts";
+
+/**
+ * Binds a form control to the property at {@link path} of the data of its instance.
+ *
+ * Values are coerced by the type of the control: `number` and `range` inputs to numbers (or `null` if empty), checkboxes to booleans, `date` and `datetime-local` inputs to {@link Date}s (or `null` if empty) and multi-selects to arrays of the selected values.
+ */
+export type ModelBinding = {
+  /** The dot separated property path within the data of the instance, e.g. `address.city` */
+  path: string;
+  /** Validates the current value, returning an error message set through `setCustomValidity` or nothing if it's valid */
+  validate?: (
+    value: unknown,
+    instance: TemplateInstance,
+  ) => string | null | undefined;
+};
+
+/** A form control bound by a {@link ModelBinding} */
+type Control = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/** The controls bound by each instance with their bindings */
+const boundControls = new WeakMap<
+  TemplateInstance,
+  Map<Element, ModelBinding>
+>();
+
+/**
+ * Writes the value at the path of {@link binding} within the data of {@link instance} to the form control {@link el} and writes changes of the control back.
+ *
+ * Changes are reported through the `onModelChange` hook of the templater.
+ */
+export const applyModel = (
+  el: Element,
+  binding: string | ModelBinding,
+  instance: TemplateInstance,
+): void => {
+  const model = typeof binding === "string" ? { path: binding } : binding;
+  const control = el as Control;
+  const bindings = boundControls.get(instance) ?? new Map();
+  boundControls.set(instance, bindings);
+  // Listeners of a previous binding of the control are kept, but follow the new binding
+  const listening = bindings.has(el);
+  bindings.set(el, model);
+
+  writeControl(control, readPath(instance.data, model.path));
+  validateControl(control, model, instance);
+  if (listening) return;
+
+  const onChange = () => {
+    const current = bindings.get(el);
+    if (
+      !current || (typeOf(control) === "radio" && !readProperty(el, "checked"))
+    ) {
+      return;
+    }
+    const value = readControl(control);
+    if (typeof instance.data !== "object" || instance.data === null) {
+      instance.data = {};
+    }
+    writePath(instance.data as Record<string, unknown>, current.path, value);
+    validateControl(control, current, instance);
+    instance.templater.hooks.onModelChange?.(instance, current.path, value);
+  };
+  const event = control.tagName === "SELECT" ||
+      typeOf(control) === "checkbox" || typeOf(control) === "radio"
+    ? "change"
+    : "input";
+  el.addEventListener(event, onChange, { signal: instance.signal });
+};
+
+/** Reads the current values of all form controls bound within {@link instance} into an object by their paths */
+export const readModel = (
+  instance: TemplateInstance,
+): Record<string, unknown> => {
+  const model: Record<string, unknown> = {};
+  for (const [el, { path }] of boundControls.get(instance) ?? []) {
+    const control = el as Control;
+    // Only the checked radio button of a group provides its value
+    if (typeOf(control) === "radio" && !readProperty(el, "checked")) continue;
+    writePath(model, path, readControl(control));
+  }
+  return model;
+};
+
+/** Sets the validity of {@link control} by the validator of {@link model}, if any */
+const validateControl = (
+  control: Control,
+  model: ModelBinding,
+  instance: TemplateInstance,
+): void => {
+  if (!model.validate || !("setCustomValidity" in control)) return;
+  control.setCustomValidity(
+    model.validate(readControl(control), instance) ?? "",
+  );
+};
+
+/** Returns the type of {@link control} from its attribute, which unlike the property always exists */
+const typeOf = (control: Control): string =>
+  (control.getAttribute("type") ?? "text").toLowerCase();
+
+/** Reads the value of {@link control} coerced by its type */
+const readControl = (control: Control): unknown => {
+  if (control.tagName === "SELECT" && readProperty(control, "multiple")) {
+    return Array.from(control.querySelectorAll("option"))
+      .filter((option) => readProperty(option, "selected"))
+      .map((option) => String(readProperty(option, "value")));
+  }
+  const value = String(readProperty(control, "value") ?? "");
+  switch (typeOf(control)) {
+    case "checkbox":
+      return Boolean(readProperty(control, "checked"));
+    case "number":
+    case "range":
+      return value === "" ? null : Number(value);
+    case "date":
+    case "datetime-local":
+      return value === "" ? null : new Date(value);
+    default:
+      return value;
+  }
+};
+
+/** Writes {@link value} to {@link control}, formatting it by the type of the control */
+const writeControl = (control: Control, value: unknown): void => {
+  if (control.tagName === "SELECT" && readProperty(control, "multiple")) {
+    const selected = Array.isArray(value) ? value.map(String) : [];
+    for (const option of Array.from(control.querySelectorAll("option"))) {
+      writeProperty(
+        option,
+        "selected",
+        selected.includes(String(readProperty(option, "value"))),
+      );
+    }
+    return;
+  }
+  switch (typeOf(control)) {
+    case "checkbox":
+      return writeProperty(control, "checked", Boolean(value));
+    case "radio":
+      return writeProperty(
+        control,
+        "checked",
+        String(value) === String(readProperty(control, "value")),
+      );
+  }
+  writeProperty(control, "value", formatValue(typeOf(control), value));
+};
+
+/** Formats {@link value} as value of an input of {@link type} */
+const formatValue = (type: string, value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (!(value instanceof Date)) return String(value);
+  if (type === "date") return value.toISOString().slice(0, 10);
+  // `datetime-local` inputs use the local time without time zone
+  const local = new Date(value.getTime() - value.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+};
+
+/** Reads the {@link property} of {@link el}, falling back to its attribute like `assignAttribute` */
+const readProperty = (el: Element, property: string): unknown => {
+  if (property in el) return el[property as keyof Element];
+  return property === "value"
+    ? el.getAttribute(property) ??
+      (el.tagName === "OPTION" ? el.textContent : "")
+    : el.hasAttribute(property);
+};
+
+/** Writes the {@link property} of {@link el}, falling back to its attribute like {@link readProperty} */
+const writeProperty = (
+  el: Element,
+  property: string,
+  value: string | boolean,
+): void => {
+  if (property in el) {
+    (el as unknown as Record<string, unknown>)[property] = value;
+  } else if (typeof value === "string") el.setAttribute(property, value);
+  else el.toggleAttribute(property, value);
+};
+
+/** Reads the value at the dot separated {@link path} within {@link data} */
+const readPath = (data: unknown, path: string): unknown =>
+  path.split(".").reduce<unknown>(
+    (value, key) =>
+      value === null || value === undefined
+        ? undefined
+        : (value as Record<string, unknown>)[key],
+    data,
+  );
+
+/** Writes {@link value} to the dot separated {@link path} within {@link data}, creating missing objects along the path */
+const writePath = (
+  data: Record<string, unknown>,
+  path: string,
+  value: unknown,
+): void => {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  let target = data;
+  for (const key of keys) {
+    if (typeof target[key] !== "object" || target[key] === null) {
+      target[key] = {};
+    }
+    target = target[key] as Record<string, unknown>;
+  }
+  target[last] = value;
+};
@@ -0,0 +1,117 @@
+import type { AttributeHandler } from "./apply-attribute-mapper.ts";
+import type { TemplateAttributeMapper } from "./types.ts";
+
+/** Matches query selectors only consisting of tag names, `*` and combinators, which don't depend on attributes */
+const STRUCTURAL_QUERY = /^[\w\s*>+~,-]+$/;
+
+/**
+ * How applying an attribute mapper may change the structure around the element:
+ *  - `none`: Only attributes or properties change
+ *  - `children`: Descendants get removed (e.g. by `textContent`)
+ *  - `siblings`: The element itself gets removed
+ *  - `any`: Elements may be added or moved anywhere (e.g. by `innerHTML` or custom mappers)
+ */
+export type StructuralChange = "none" | "children" | "siblings" | "any";
+
+/** Computes the child-index paths of all elements matching {@link query} within {@link content} */
+export const compileQuery = (
+  content: DocumentFragment,
+  query: string,
+): number[][] =>
+  Array.from(content.querySelectorAll(query), (el) => {
+    const path: number[] = [];
+    for (let node: Node = el; node !== content; node = node.parentNode!) {
+      path.unshift(
+        Array.prototype.indexOf.call(node.parentNode!.childNodes, node),
+      );
+    }
+    return path;
+  });
+
+/**
+ * Resolves the elements of the child-index {@link paths} within {@link root}, a clone of the compiled content.
+ *
+ * Returns `null` if a path leads through or to one of the {@link changed} nodes whose children may no longer match the compiled content, as selectors like `:empty` depend on the children of the matched element as well.
+ */
+export const resolveQuery = (
+  root: DocumentFragment,
+  paths: ReadonlyArray<number[]>,
+  changed: ReadonlySet<Node>,
+): Element[] | null => {
+  const elements: Element[] = [];
+  for (const path of paths) {
+    let node: Node = root;
+    for (const index of path) {
+      if (changed.has(node)) return null;
+      node = node.childNodes[index];
+    }
+    if (changed.has(node)) return null;
+    elements.push(node as Element);
+  }
+  return elements;
+};
+
+/** Checks if the matches of {@link query} only depend on the structure of the elements and not their attributes */
+export const isStructuralQuery = (query: string): boolean =>
+  STRUCTURAL_QUERY.test(query);
+
+/** The {@link StructuralChange}s of the attribute mapper keys assigned as properties, all others only change attributes or properties */
+const PROPERTY_CHANGES: Readonly<Record<string, StructuralChange>> = {
+  innerHTML: "any",
+  outerHTML: "any",
+  textContent: "children",
+  innerText: "children",
+};
+
+/** The {@link StructuralChange}s ordered by how much they may change, where each one covers the ones before */
+const CHANGE_ORDER: ReadonlyArray<StructuralChange> = [
+  "none",
+  "children",
+  "siblings",
+  "any",
+];
+
+/**
+ * Returns the {@link StructuralChange} applying {@link attributeMapper} may cause.
+ *
+ * Keys handled by the attribute handler {@link findHandler} returns may cause the `structural` change the handler declares, defaulting to `any`.
+ */
+export const structuralChange = (
+  attributeMapper: TemplateAttributeMapper<HTMLElement>,
+  findHandler: (key: string) => AttributeHandler | undefined,
+): StructuralChange => {
+  if (attributeMapper === null) return "siblings";
+  if (typeof attributeMapper === "string") return "children";
+  if (typeof attributeMapper === "function") return "any";
+  let change: StructuralChange = "none";
+  for (const key of Object.keys(attributeMapper)) {
+    const handler = findHandler(key);
+    const keyChange = handler
+      ? handler.structural ?? "any"
+      : PROPERTY_CHANGES[key] ?? "none";
+    if (CHANGE_ORDER.indexOf(keyChange) > CHANGE_ORDER.indexOf(change)) {
+      change = keyChange;
+    }
+  }
+  return change;
+};
+
+/** Keys of attribute mappers which never change the attributes or states a query selector could match */
+const NON_ATTRIBUTE_KEYS = new Set([
+  "textContent",
+  "innerText",
+  "eventListeners",
+]);
+
+/** Checks if applying {@link attributeMapper} may change the attributes (e.g. `class` or `id`) or states the matches of later query selectors depend on */
+export const changesAttributes = (
+  attributeMapper: TemplateAttributeMapper<HTMLElement>,
+): boolean => {
+  if (attributeMapper === null || typeof attributeMapper === "string") {
+    return false;
+  }
+  if (typeof attributeMapper === "function") return true;
+  return Object.keys(attributeMapper).some((key) =>
+    !NON_ATTRIBUTE_KEYS.has(key)
+  );
+};
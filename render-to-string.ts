@@ -0,0 +1,114 @@
+import { mapFragment } from "./apply-attribute-mapper.ts";
+import {
+  HTMLTemplaterError,
+  HTMLTemplaterErrorCode,
+} from "./html-templater-error.ts";
+import {
+  applyBindings,
+  compileTemplate,
+  resolveBindings,
+} from "./template-bindings.ts";
+import type { MaybeArray, TemplateElementMapper } from "./types.ts";
+
+/** The content of the comments marking the start (and prefixed with `/` the end) of rendered instances for {@link HTMLTemplater.hydrate} */
+export const INSTANCE_MARKER = "templater-instance";
+
+/** The subset of {@link DOMParser} needed to render without a live DOM */
+export type HTMLParser = {
+  parseFromString(source: string, type: "text/html"): {
+    querySelector(selectors: string): Element | null;
+    querySelectorAll(selectors: string): ArrayLike<Element>;
+    createElement(tagName: string): Element;
+  };
+};
+
+/** Event listeners which were dropped as they can't be serialized */
+export type DroppedEventListeners = {
+  /** The element the listeners should have been attached to */
+  element: Element;
+  /** The event names of the dropped listeners */
+  events: string[];
+  /** The index of the mapper the listeners were declared in */
+  index: number;
+};
+
+/**
+ * Renders the {@link template} source once per mapper to an HTML string without requiring a global `document`.
+ *
+ * Mappers are applied with the same semantics as in {@link HTMLTemplater.instantiate}.
+ * As event listeners can't be serialized they are dropped and only reported through {@link options.onEventListeners}, if provided.
+ *
+ * @param template The inner HTML of the template
+ * @param mappers The mapper(s) to render the template with, each resulting in one instance
+ * @param options
+ * @param options.parser The HTML parser, e.g. `new DOMParser()` from `@b-fuze/deno-dom`. Defaults to the global `DOMParser` if available.
+ * @param options.onEventListeners Called for every element with dropped event listeners
+ * @param options.markers If true, wraps every instance in marker comments so it can be adopted by {@link HTMLTemplater.hydrate}
+ *
+ * @example
+ * ```ts
+ * import { DOMParser } from "@b-fuze/deno-dom";
+ *
+ * const html = renderToString(
+ *   `<li><a class="link"></a></li>`,
+ *   links.map((link) => ({ ".link": { href: link.url, textContent: link.title } })),
+ *   { parser: new DOMParser() },
+ * );
+ * ```
+ */
+export const renderToString = <
+  T extends TemplateElementMapper = TemplateElementMapper,
+>(
+  template: string,
+  mappers: MaybeArray<T>,
+  options?: {
+    parser?: HTMLParser;
+    onEventListeners?: (dropped: DroppedEventListeners) => void;
+    markers?: boolean;
+  },
+): string => {
+  const parser = options?.parser ??
+    (typeof DOMParser === "undefined" ? undefined : new DOMParser());
+  if (!parser) {
+    throw new HTMLTemplaterError(
+      null,
+      "No `parser` provided and no global `DOMParser` available",
+      { code: HTMLTemplaterErrorCode.ParserUnavailable },
+    );
+  }
+
+  const document = parser.parseFromString(
+    `<template>${template}</template>`,
+    "text/html",
+  );
+  const templateEl = document.querySelector("template") as
+    | HTMLTemplateElement
+    | null;
+  if (!templateEl) {
+    throw new HTMLTemplaterError(null, "Template source could not be parsed", {
+      code: HTMLTemplaterErrorCode.ParseFailed,
+    });
+  }
+
+  const mapperArray = [mappers].flat() as T[];
+  const onEventListeners = options?.onEventListeners ?? (() => {});
+
+  const { content, bindings } = compileTemplate(templateEl.content);
+  const host = document.createElement("div");
+  return mapperArray
+    .map((mapper, index) => {
+      const clone = content.cloneNode(true) as DocumentFragment;
+      if (bindings.length) {
+        applyBindings(resolveBindings(clone, bindings), mapper.$data);
+      }
+      mapFragment(clone, mapper, {
+        onEventListeners: (element, listeners) =>
+          onEventListeners({ element, events: Object.keys(listeners), index }),
+      });
+      host.replaceChildren(clone);
+      return options?.markers
+        ? `<!--${INSTANCE_MARKER}-->${host.innerHTML}<!--/${INSTANCE_MARKER}-->`
+        : host.innerHTML;
+    })
+    .join("");
+};
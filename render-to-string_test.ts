@@ -0,0 +1,92 @@
+/// <reference lib="deno.ns" />
+import { DOMParser } from "@b-fuze/deno-dom";
+import { HTMLTemplaterError, renderToString } from "@md/html-templater";
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+
+const parser = new DOMParser() as unknown as globalThis.DOMParser;
+
+Deno.test("renderToString() renders one instance per mapper", () => {
+  assertEquals(
+    renderToString(`<li><a></a></li>`, [
+      { a: { href: "/one", textContent: "One" } },
+      { a: "Two" },
+    ], { parser }),
+    `<li><a href="/one">One</a></li><li><a>Two</a></li>`,
+  );
+});
+
+Deno.test("renderToString() supports removing elements and attributes", () => {
+  assertEquals(
+    renderToString(
+      `<p data-remove="">Text</p><br>`,
+      { br: null, p: { "data-remove": null } },
+      { parser },
+    ),
+    `<p>Text</p>`,
+  );
+});
+
+Deno.test("renderToString() serializes style, dataset and classList", () => {
+  assertEquals(
+    renderToString(
+      `<div class="a" style="color: red;" data-id="1"></div>`,
+      {
+        div: {
+          style: (v) => ({ ...v, backgroundColor: "blue" }),
+          dataset: (v) => ({ id: Number(v.id) + 1 + "", userName: "x" }),
+          classList: { a: false, b: true },
+        },
+      },
+      { parser },
+    ),
+    `<div class="b" style="color: red; background-color: blue" data-id="2" data-user-name="x"></div>`,
+  );
+});
+
+Deno.test("renderToString() applies declarative bindings", () => {
+  assertEquals(
+    renderToString(
+      `<a href="/{{ slug }}"><b data-bind:title="title">{{ title }}</b></a>`,
+      { $data: { slug: "home", title: "Home" } },
+      { parser },
+    ),
+    `<a href="/home"><b title="Home">Home</b></a>`,
+  );
+});
+
+Deno.test("renderToString() reports dropped event listeners", () => {
+  const dropped: { events: string[]; index: number }[] = [];
+  const html = renderToString(
+    `<button>Click</button>`,
+    [{}, { button: { eventListeners: { click: () => {}, focus: () => {} } } }],
+    {
+      parser,
+      onEventListeners: ({ events, index }) => dropped.push({ events, index }),
+    },
+  );
+  assertEquals(html, `<button>Click</button><button>Click</button>`);
+  assertEquals(dropped, [{ events: ["click", "focus"], index: 1 }]);
+});
+
+Deno.test("renderToString() drops event listeners silently by default", () => {
+  const { warn } = console;
+  const warnings: unknown[] = [];
+  console.warn = (...args: unknown[]) => warnings.push(args);
+  try {
+    renderToString(`<button></button>`, {
+      button: { eventListeners: { click: () => {} } },
+    }, { parser });
+  } finally {
+    console.warn = warn;
+  }
+  assertEquals(warnings, []);
+});
+
+Deno.test("renderToString() throws without parser", () => {
+  const error = assertThrows(() => renderToString(`<br>`, {}));
+  assertInstanceOf(error, HTMLTemplaterError);
+  assertEquals(
+    error.message,
+    "HTMLTemplater Error: No `parser` provided and no global `DOMParser` available",
+  );
+});
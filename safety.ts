@@ -0,0 +1,137 @@
+import type { HTMLTemplater } from "@md/html-templater";
+import { HTMLTemplaterSafetyError } from "./html-templater-error.ts";
+
+/** Options of the `safe` mode of {@link HTMLTemplater} */
+export type SafeOptions = {
+  /** The URL schemes allowed in `href`, `src`, `action`, `formaction` and `srcset`, defaults to `http`, `https`, `mailto` and `tel` (relative URLs are always allowed) */
+  allowedSchemes?: ReadonlyArray<string>;
+  /** Sanitizes HTML assigned to `innerHTML`, `outerHTML` or `srcdoc`, which are blocked otherwise */
+  sanitizeHTML?: (html: string) => string;
+  /** The name of the Trusted Types policy wrapping sanitized HTML and validated script URLs, if the API is available */
+  trustedTypesPolicy?: string;
+};
+
+/** Validates a value before it's assigned to {@link attribute} of {@link element} and returns the (sanitized) value to assign */
+export type AttributeGuard = (
+  element: Element,
+  attribute: string,
+  value: unknown,
+) => unknown;
+
+/** The subset of the Trusted Types API used, which isn't part of the DOM typings yet */
+type TrustedTypePolicy = {
+  createHTML(input: string): unknown;
+  createScriptURL(input: string): unknown;
+};
+type TrustedTypePolicyFactory = {
+  createPolicy(
+    name: string,
+    rules: {
+      createHTML(input: string): string;
+      createScriptURL(input: string): string;
+    },
+  ): TrustedTypePolicy;
+  isHTML(value: unknown): boolean;
+};
+
+const DEFAULT_SCHEMES = ["http", "https", "mailto", "tel"];
+/** Sinks parsing their value as HTML */
+const HTML_SINKS = new Set(["innerhtml", "outerhtml", "srcdoc"]);
+/** Attributes holding URLs which may use the `javascript:` scheme */
+const URL_ATTRIBUTES = new Set([
+  "href",
+  "src",
+  "action",
+  "formaction",
+  "srcset",
+]);
+/** Matches the scheme of an absolute URL */
+const SCHEME = /^([a-z][a-z\d+.-]*):/i;
+
+/** The created Trusted Types policies by name as each name can only be created once */
+const policies = new Map<string, TrustedTypePolicy>();
+
+/** Creates the {@link AttributeGuard} enforcing the {@link options} for the mapper of {@link selector} (or `null` for bindings) */
+export const createGuard = (
+  templater: HTMLTemplater | null,
+  options: SafeOptions,
+  selector: string | null,
+): AttributeGuard => {
+  const schemes = new Set(
+    (options.allowedSchemes ?? DEFAULT_SCHEMES).map((scheme) =>
+      scheme.toLowerCase()
+    ),
+  );
+  const trustedTypes = getTrustedTypes();
+  const policy = trustedTypes && options.trustedTypesPolicy
+    ? getPolicy(trustedTypes, options.trustedTypesPolicy)
+    : null;
+  const violation = (attribute: string, reason: string) =>
+    new HTMLTemplaterSafetyError(templater, selector, attribute, reason);
+
+  return (element, attribute, value) => {
+    const name = attribute.toLowerCase();
+    if (name.startsWith("on")) {
+      throw violation(
+        attribute,
+        "inline event handlers are blocked, use `eventListeners` instead",
+      );
+    }
+    if (HTML_SINKS.has(name)) {
+      if (trustedTypes?.isHTML(value)) return value;
+      if (!options.sanitizeHTML) {
+        throw violation(
+          attribute,
+          "HTML sinks are blocked unless `sanitizeHTML` is provided",
+        );
+      }
+      const html = options.sanitizeHTML(String(value));
+      return policy ? policy.createHTML(html) : html;
+    }
+    if (URL_ATTRIBUTES.has(name)) {
+      const url = String(value);
+      // Every `srcset` candidate is a URL followed by an optional descriptor
+      const urls = name === "srcset"
+        ? url.split(",").map((candidate) => candidate.trim().split(/\s+/)[0])
+        : [url];
+      for (const candidate of urls) {
+        const scheme = schemeOf(candidate);
+        if (scheme && !schemes.has(scheme)) {
+          throw violation(attribute, `the scheme "${scheme}:" isn't allowed`);
+        }
+      }
+      if (policy && name === "src" && element.localName === "script") {
+        return policy.createScriptURL(url);
+      }
+    }
+    return value;
+  };
+};
+
+/** Returns the lower cased scheme of {@link url} or `null` if it's relative */
+const schemeOf = (url: string): string | null => {
+  // Browsers ignore whitespace and control characters within the scheme
+  // deno-lint-ignore no-control-regex
+  const match = url.replace(/[\u0000- ]/g, "").match(SCHEME);
+  return match ? match[1].toLowerCase() : null;
+};
+
+/** Returns the Trusted Types API if available */
+const getTrustedTypes = (): TrustedTypePolicyFactory | undefined =>
+  (globalThis as { trustedTypes?: TrustedTypePolicyFactory }).trustedTypes;
+
+/** Returns the policy named {@link name}, which only passes through values already validated by the guard */
+const getPolicy = (
+  trustedTypes: TrustedTypePolicyFactory,
+  name: string,
+): TrustedTypePolicy => {
+  let policy = policies.get(name);
+  if (!policy) {
+    policy = trustedTypes.createPolicy(name, {
+      createHTML: (html) => html,
+      createScriptURL: (url) => url,
+    });
+    policies.set(name, policy);
+  }
+  return policy;
+};
@@ -0,0 +1,27 @@
+/** How violations of the `strict` mode are surfaced: thrown or collected in `HTMLTemplater.warnings` */
+export type StrictLevel = "throw" | "warn";
+
+/** Options of the `strict` mode of `HTMLTemplater` */
+export type StrictOptions = {
+  /** Throws violations (default) or collects them in `HTMLTemplater.warnings` */
+  level?: StrictLevel;
+  /** The maximum number of elements a query selector may match per instance, either for all selectors or by selector. Unlimited by default. */
+  maxMatches?: number | Record<string, number>;
+};
+
+/** Matches attribute names as serialized by HTML, which lowercases them, so misspelled camel cased properties are caught */
+const ATTRIBUTE_NAME = /^[a-z_:][a-z\d_.:-]*$/;
+
+/** Checks if {@link name} is a valid attribute name for properties the element doesn't have */
+export const isAttributeName = (name: string): boolean =>
+  ATTRIBUTE_NAME.test(name);
+
+/** Returns the maximum number of elements {@link selector} may match per instance */
+export const maxMatchesFor = (
+  options: StrictOptions,
+  selector: string,
+): number => {
+  const { maxMatches } = options;
+  if (typeof maxMatches === "number") return maxMatches;
+  return maxMatches?.[selector] ?? Infinity;
+};
@@ -0,0 +1,361 @@
+import {
+  applyAttributeMapper,
+  type ApplyContext,
+} from "./apply-attribute-mapper.ts";
+import { evaluateExpression } from "./expression.ts";
+import type { TemplateAttributeMapper } from "./types.ts";
+import { isElement, toCamel } from "./utils.ts";
+
+/** The attribute prefix binding an attribute or property to an expression, e.g. `data-bind:src="imageUrl"` */
+const BIND_PREFIX = "data-bind:";
+/** Matches `{{ expression }}` interpolations */
+const INTERPOLATION = /\{\{\s*(.+?)\s*\}\}/g;
+/** Matches the `item in items` syntax of `data-each` */
+const EACH_ALIAS = /^\s*([A-Za-z_$][\w$]*)\s+in\s+(.+)$/;
+
+/** Either static text or an expression to interpolate */
+type InterpolationPart = string | { expression: string };
+
+/** A template whose content has all bindings parsed and its structural directives replaced by placeholder comments */
+export type CompiledTemplate = {
+  content: DocumentFragment;
+  bindings: TemplateBinding[];
+};
+
+/** A binding declared in the template markup, located by the child indices leading to its node */
+export type TemplateBinding =
+  | { type: "text"; path: number[]; parts: InterpolationPart[] }
+  | {
+    type: "attribute";
+    path: number[];
+    name: string;
+    parts: InterpolationPart[];
+  }
+  | {
+    type: "bind";
+    path: number[];
+    attribute: string;
+    name: string;
+    expression: string;
+  }
+  | {
+    type: "if";
+    path: number[];
+    expression: string;
+    template: CompiledTemplate;
+  }
+  | {
+    type: "each";
+    path: number[];
+    expression: string;
+    alias: string;
+    template: CompiledTemplate;
+  };
+
+/** The nodes and bindings of one rendering of a structural directive */
+type RenderedBlock = { nodes: ChildNode[]; bindings: ResolvedBinding[] };
+
+/** A {@link TemplateBinding} resolved to the node of a template clone */
+export type ResolvedBinding = {
+  binding: TemplateBinding;
+  node: Node;
+  /** The currently rendered blocks of structural directives */
+  blocks?: RenderedBlock[];
+};
+
+/**
+ * Parses all `{{ }}` interpolations, `data-bind:*` attributes and `data-if`/`data-each` directives within {@link content}.
+ *
+ * If the content contains directives it is cloned to replace them with placeholders, otherwise it's used as is.
+ */
+export const compileTemplate = (
+  content: DocumentFragment,
+): CompiledTemplate => {
+  const hasDirectives = content.querySelector("[data-if], [data-each]");
+  const root = hasDirectives
+    ? content.cloneNode(true) as DocumentFragment
+    : content;
+  return { content: root, bindings: compileNodes(root) };
+};
+
+/** Parses the bindings of all children of {@link root}, replacing directive elements with placeholders */
+const compileNodes = (root: ParentNode): TemplateBinding[] => {
+  const bindings: TemplateBinding[] = [];
+
+  const walk = (node: Node, path: number[]) => {
+    // Text nodes
+    if (node.nodeType === 3) {
+      const parts = parseInterpolation(node.textContent ?? "");
+      if (parts) bindings.push({ type: "text", path, parts });
+      return;
+    }
+    if (!isElement(node)) return;
+
+    // `data-each` wraps `data-if` so the condition can use the item
+    const directive = node.hasAttribute("data-each")
+      ? "each"
+      : node.hasAttribute("data-if")
+      ? "if"
+      : null;
+    if (directive) {
+      const value = node.getAttribute(`data-${directive}`) ?? "";
+      node.removeAttribute(`data-${directive}`);
+      const template = extractDirective(node);
+      if (directive === "if") {
+        bindings.push({ type: "if", path, expression: value, template });
+      } else {
+        const [, alias, expression] = value.match(EACH_ALIAS) ??
+          [, "$item", value];
+        bindings.push({ type: "each", path, expression, alias, template });
+      }
+      return;
+    }
+
+    for (const attribute of node.getAttributeNames()) {
+      const value = node.getAttribute(attribute) ?? "";
+      if (attribute.startsWith(BIND_PREFIX)) {
+        bindings.push({
+          type: "bind",
+          path,
+          attribute,
+          name: attribute.slice(BIND_PREFIX.length),
+          expression: value.trim(),
+        });
+        continue;
+      }
+      const parts = parseInterpolation(value);
+      if (parts) {
+        bindings.push({ type: "attribute", path, name: attribute, parts });
+      }
+    }
+    node.childNodes.forEach((child, i) => walk(child, [...path, i]));
+  };
+  root.childNodes.forEach((child, i) => walk(child, [i]));
+
+  return bindings;
+};
+
+/** Replaces the directive element {@link el} with a placeholder comment and compiles it as its own template */
+const extractDirective = (el: Element): CompiledTemplate => {
+  const document = el.ownerDocument;
+  el.replaceWith(document.createComment(""));
+  const content = document.createDocumentFragment();
+  content.append(el);
+  return { content, bindings: compileNodes(content) };
+};
+
+/** Resolves the {@link bindings} to the nodes of {@link root}, which must be an unmodified clone of the compiled content */
+export const resolveBindings = (
+  root: ParentNode,
+  bindings: ReadonlyArray<TemplateBinding>,
+): ResolvedBinding[] =>
+  bindings.map((binding) => ({
+    binding,
+    node: binding.path.reduce<Node>(
+      (node, index) => node.childNodes[index],
+      root as ParentNode & Node,
+    ),
+  }));
+
+/**
+ * Resolves the {@link bindings} to the server-rendered {@link nodes} of an instance, e.g. rendered by `renderToString`, so they can be updated after hydration.
+ *
+ * Unlike a fresh clone the rendered nodes contain the blocks of structural directives in front of their placeholder comments, which are adopted as the rendered blocks. Interpolations which rendered empty text aren't serialized, so their text nodes are recreated.
+ */
+export const adoptBindings = (
+  nodes: ReadonlyArray<ChildNode>,
+  bindings: ReadonlyArray<TemplateBinding>,
+): ResolvedBinding[] =>
+  bindings.flatMap((binding): ResolvedBinding[] => {
+    let parent: ChildNode | null = null;
+    let children = nodes;
+    let adopted: { node: ChildNode | undefined; blockNodes: ChildNode[] } = {
+      node: undefined,
+      blockNodes: [],
+    };
+    for (const [depth, index] of binding.path.entries()) {
+      const directives = new Set(
+        bindings
+          .filter(({ type, path }) =>
+            (type === "if" || type === "each") &&
+            path.length === depth + 1 &&
+            path.every((i, d) => d === depth || i === binding.path[d])
+          )
+          .map(({ path }) => path[depth]),
+      );
+      adopted = adoptChild(children, index, directives);
+      const last = depth === binding.path.length - 1;
+      if (
+        last && binding.type === "text" && parent &&
+        adopted.node?.nodeType !== 3
+      ) {
+        const text: Text = parent.ownerDocument!.createTextNode("");
+        parent.insertBefore(text, adopted.node ?? null);
+        adopted.node = text;
+      }
+      if (!adopted.node) return [];
+      parent = adopted.node;
+      children = Array.from(adopted.node.childNodes);
+    }
+
+    const { node, blockNodes } = adopted;
+    if (binding.type !== "if" && binding.type !== "each") {
+      return [{ binding, node: node! }];
+    }
+    // The content of directive templates is the single directive element
+    const blocks = blockNodes.map((blockNode) => ({
+      nodes: [blockNode],
+      bindings: adoptBindings([blockNode], binding.template.bindings),
+    }));
+    return [{ binding, node: node!, blocks }];
+  });
+
+/** Returns the rendered node at the compiled child {@link index} among {@link children} together with the block nodes rendered in front of it, skipping the blocks in front of the placeholders of the {@link directives} indices */
+const adoptChild = (
+  children: ReadonlyArray<ChildNode>,
+  index: number,
+  directives: ReadonlySet<number>,
+): { node: ChildNode | undefined; blockNodes: ChildNode[] } => {
+  let position = 0;
+  for (let i = 0;; i++) {
+    const blockNodes: ChildNode[] = [];
+    if (directives.has(i)) {
+      while (position < children.length && !isPlaceholder(children[position])) {
+        blockNodes.push(children[position++]);
+      }
+    }
+    if (i === index) return { node: children[position], blockNodes };
+    position++;
+  }
+};
+
+/** Checks if {@link node} is the empty comment a structural directive was replaced with */
+const isPlaceholder = (node: ChildNode): boolean =>
+  node.nodeType === 8 && node.textContent === "";
+
+/** Applies the resolved {@link bindings} using {@link data}, validating attribute values through the `guard` of the {@link context} and applying properties within it like mappers */
+export const applyBindings = (
+  bindings: ReadonlyArray<ResolvedBinding>,
+  data: unknown,
+  context: ApplyContext = {},
+): void => {
+  const { guard } = context;
+  for (const resolved of bindings) {
+    const { binding, node } = resolved;
+    if (binding.type === "text") {
+      node.textContent = interpolate(binding.parts, data);
+    } else if (binding.type === "attribute") {
+      const value = interpolate(binding.parts, data);
+      (node as Element).setAttribute(
+        binding.name,
+        guard ? String(guard(node as Element, binding.name, value)) : value,
+      );
+    } else if (binding.type === "bind") {
+      const el = node as Element;
+      el.removeAttribute(binding.attribute);
+      // Attribute names are lowercased by the parser so prefer the camelCased property
+      const property = toCamel(binding.name);
+      const key = property in el ? property : binding.name;
+      const value = evaluateExpression(binding.expression, data);
+      applyAttributeMapper(
+        el,
+        { [key]: value ?? null } as TemplateAttributeMapper<HTMLElement>,
+        context,
+      );
+    } else {
+      const blocks = resolved.blocks ??= [];
+      const scopes = binding.type === "if"
+        ? (evaluateExpression(binding.expression, data) ? [data] : [])
+        : toArray(evaluateExpression(binding.expression, data)).map((
+          item,
+          index,
+        ) => ({ ...data as object, [binding.alias]: item, $index: index }));
+
+      // Reuse already rendered blocks and only create or remove the difference
+      scopes.forEach((scope, index) => {
+        const block = blocks[index] ??= renderBlock(binding.template, node);
+        applyBindings(block.bindings, scope, context);
+        block.nodes = collectNodes(block.nodes, block.bindings);
+      });
+      for (const block of blocks.splice(scopes.length)) {
+        for (const blockNode of block.nodes) blockNode.remove();
+      }
+    }
+  }
+};
+
+/**
+ * Updates the top-level {@link nodes} of a template clone with the current nodes rendered by its top-level directives.
+ *
+ * Nodes which were removed from their parent are dropped.
+ */
+export const collectNodes = (
+  nodes: ReadonlyArray<ChildNode>,
+  bindings: ReadonlyArray<ResolvedBinding>,
+): ChildNode[] => {
+  const blockNodes = new Map<Node, ChildNode[]>();
+  for (const { binding, node, blocks } of bindings) {
+    if (binding.path.length === 1 && blocks) {
+      blockNodes.set(node, blocks.flatMap((block) => block.nodes));
+    }
+  }
+  if (!blockNodes.size) return nodes.filter((node) => node.parentNode);
+
+  const rendered = new Set(Array.from(blockNodes.values()).flat());
+  return nodes.flatMap((node) => {
+    if (rendered.has(node) || !node.parentNode) return [];
+    return [...(blockNodes.get(node) ?? []), node];
+  });
+};
+
+/** Clones the directive {@link template} and inserts it in front of the {@link placeholder} */
+const renderBlock = (
+  template: CompiledTemplate,
+  placeholder: Node,
+): RenderedBlock => {
+  const clone = template.content.cloneNode(true) as DocumentFragment;
+  const block = {
+    nodes: Array.from(clone.childNodes),
+    bindings: resolveBindings(clone, template.bindings),
+  };
+  placeholder.parentNode?.insertBefore(clone, placeholder);
+  return block;
+};
+
+/** Converts iterables to arrays and everything else to an empty array */
+const toArray = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (
+    value !== null && typeof value === "object" && Symbol.iterator in value
+  ) {
+    return Array.from(value as Iterable<unknown>);
+  }
+  return [];
+};
+
+/** Splits {@link text} into static and interpolated parts or returns `null` if it has no interpolations */
+const parseInterpolation = (text: string): InterpolationPart[] | null => {
+  const parts: InterpolationPart[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(INTERPOLATION)) {
+    if (match.index > lastIndex) parts.push(text.slice(lastIndex, match.index));
+    parts.push({ expression: match[1] });
+    lastIndex = match.index + match[0].length;
+  }
+  if (!parts.length) return null;
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+  return parts;
+};
+
+/** Joins the {@link parts} evaluating all expressions against {@link data} */
+const interpolate = (
+  parts: ReadonlyArray<InterpolationPart>,
+  data: unknown,
+): string =>
+  parts
+    .map((part) => {
+      if (typeof part === "string") return part;
+      const value = evaluateExpression(part.expression, data);
+      return value === null || value === undefined ? "" : String(value);
+    })
+    .join("");
@@ -0,0 +1,188 @@
+import type { HTMLTemplater, TemplateElementMapper } from "@md/html-templater";
+import { extract, type Extracted, type ExtractSchema } from "./extract.ts";
+import {
+  HTMLTemplaterError,
+  HTMLTemplaterErrorCode,
+} from "./html-templater-error.ts";
+import { readModel } from "./model.ts";
+import {
+  applyBindings,
+  collectNodes,
+  type ResolvedBinding,
+} from "./template-bindings.ts";
+import { runTransition } from "./transition.ts";
+
+/**
+ * A single instantiation of a {@link HTMLTemplater}'s template.
+ *
+ * Keeps track of the nodes it consists of and the {@link TemplateElementMapper} it was built from so it can be updated in place.
+ *
+ * @example
+ * ```ts
+ * const templater = new HTMLTemplater("#row-template").instantiate(
+ *   { ".name": "Alice", ".count": "0" },
+ * );
+ * const [row] = templater.instances;
+ * row.update({ ".count": "1" });
+ * ```
+ */
+export class TemplateInstance<
+  T extends TemplateElementMapper = TemplateElementMapper,
+> {
+  /**
+   * @param templater The templater this instance was created from
+   * @param nodes The top-level nodes making up this instance
+   * @param mapper The mapper this instance was built from
+   * @param bindings The declarative bindings of the template resolved to the nodes of this instance
+   */
+  constructor(
+    public readonly templater: HTMLTemplater<T>,
+    public nodes: ChildNode[],
+    public mapper: T,
+    public bindings: ResolvedBinding[] = [],
+  ) {}
+
+  /** The key identifying this instance if it was created by {@link HTMLTemplater.render} */
+  public key?: unknown;
+  /** The item this instance was created from by {@link HTMLTemplater.render} or its `$data` otherwise */
+  public data?: unknown;
+  /** The nested instances rendered into this instance by `children` attributes */
+  public children: TemplateInstance[] = [];
+  /** Resolves once the nodes of this instance were removed after its leave transition and `onRemove`, or `null` while it wasn't removed */
+  public removed: Promise<void> | null = null;
+  /** Aborts the event listeners attached to the nodes of this instance */
+  private controller = new AbortController();
+
+  /** Aborted once this instance is removed or replaced, which cancels its event listeners */
+  public get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** The position of this instance in the templater's `instances` or `-1` if it was removed */
+  public get index(): number {
+    return this.templater.instances.indexOf(this);
+  }
+
+  /**
+   * Applies the (partial) {@link mapper} to the nodes of this instance and merges it into {@link TemplateInstance.mapper}.
+   *
+   * As the nodes keep the values of earlier mappers and function values receive the current ones, mappers applied repeatedly should set absolute values instead of modifying previous ones.
+   */
+  public update(mapper: Partial<T>): this {
+    if ("$data" in mapper) {
+      applyBindings(
+        this.bindings,
+        mapper.$data,
+        this.templater.applyContext(this, null),
+      );
+      this.nodes = collectNodes(this.nodes, this.bindings);
+      this.data = mapper.$data;
+    }
+    this.templater.applyElementMapper(this.nodes, mapper as T, this);
+    // Drop top-level nodes removed by `null` mappers
+    this.nodes = this.nodes.filter((node) => node.parentNode);
+    this.mapper = { ...this.mapper, ...mapper };
+    this.templater.hooks.onUpdate?.(this, mapper);
+    return this;
+  }
+
+  /** Replaces the nodes of this instance in place with a fresh clone of the template using {@link mapper} */
+  public replace(mapper: T): this {
+    const previous = this.nodes;
+    for (const child of this.children) child.remove();
+    this.children = [];
+    this.controller.abort();
+    this.controller = new AbortController();
+    this.templater.createInstance(mapper, this);
+
+    const [first] = previous;
+    const mounted = Boolean(first?.parentNode);
+    if (mounted) first.before(...this.nodes);
+    for (const node of previous) node.remove();
+    if (mounted) this.templater.hooks.onMount?.(this);
+    return this;
+  }
+
+  /** Reads the current values of all form controls bound by `model` attributes into an object by their property paths */
+  public readModel(): Record<string, unknown> {
+    return readModel(this);
+  }
+
+  /** Reads the fields of {@link schema} from the nodes of this instance, see {@link extract} */
+  public extract<S extends ExtractSchema>(schema: S): Extracted<S> {
+    return extract(this, schema);
+  }
+
+  /**
+   * Moves this instance to {@link index} of the templater's `instances` and its nodes to the matching position among the nodes of the other instances.
+   *
+   * @param index The position to move to, clamped to the bounds of the instances
+   */
+  public moveTo(index: number): this {
+    const { instances } = this.templater;
+    const from = this.index;
+    if (from === -1) {
+      throw new HTMLTemplaterError(
+        this.templater,
+        "Can't move an instance which was removed",
+        { code: HTMLTemplaterErrorCode.InstanceNotFound },
+      );
+    }
+    instances.splice(from, 1);
+    const to = Math.max(0, Math.min(index, instances.length));
+    instances.splice(to, 0, this);
+
+    const parent = this.nodes[0]?.parentNode;
+    if (!parent) return this;
+    const next = instances[to + 1]?.nodes[0];
+    const previous = instances[to - 1]?.nodes.at(-1);
+    const reference = next?.parentNode === parent
+      ? next
+      : previous?.parentNode === parent
+      ? previous.nextSibling
+      : undefined;
+    // Already in place or no other mounted instance to position relative to
+    if (reference === undefined || reference === this.nodes[0]) return this;
+    for (const node of this.nodes) parent.insertBefore(node, reference);
+    return this;
+  }
+
+  /** Aborts the {@link signal} and removes the nested instances without removing the nodes or calling hooks, e.g. for instances whose mapper failed while creating them */
+  public dispose(): void {
+    this.controller.abort();
+    for (const child of this.children) child.remove();
+    this.children = [];
+  }
+
+  /**
+   * Removes the nodes of this instance and its nested instances from the DOM and the instance from the templater's `instances`.
+   *
+   * If the templater has a `leave` transition or its `onRemove` returns a promise, the nodes are only removed once both settled, which {@link removed} resolves after.
+   *
+   * @param delay The delay of the leave transition in milliseconds, e.g. to stagger removing many instances
+   */
+  public remove(delay = 0): this {
+    if (this.signal.aborted) return this;
+    this.controller.abort();
+    const { index } = this;
+    if (index !== -1) this.templater.instances.splice(index, 1);
+
+    const { nodes, children } = this;
+    this.children = [];
+    const detach = () => {
+      for (const node of nodes) node.remove();
+      for (const child of children) child.remove();
+    };
+    const pending = [
+      runTransition(nodes, this.templater.transition, "leave", delay),
+      this.templater.hooks.onRemove?.(this),
+    ].filter((removing) => removing instanceof Promise);
+    if (pending.length) {
+      this.removed = Promise.allSettled(pending).then(detach);
+    } else {
+      detach();
+      this.removed = Promise.resolve();
+    }
+    return this;
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  HTMLTemplaterError,
+  HTMLTemplaterErrorCode,
+} from "./html-templater-error.ts";
+import { HTMLTemplater } from "./mod.ts";
+import type { HTMLParser } from "./render-to-string.ts";
+import type { TemplateElementMapper } from "./types.ts";
+
+/** Loads the HTML source of a partials file */
+export type TemplateLoader = (url: string) => Promise<string>;
+
+/** The options passed to the {@link HTMLTemplater} constructor */
+type TemplaterOptions = ConstructorParameters<typeof HTMLTemplater>[1];
+
+/**
+ * Caches templaters by name so different modules share one parsed template.
+ *
+ * Templates can be registered from any source accepted by {@link HTMLTemplater} or loaded from partials files, registering each `<template>` by its `id`.
+ *
+ * @example
+ * ```ts
+ * export const templates = new TemplateRegistry();
+ * await templates.load("/partials/cards.html");
+ *
+ * // In another module
+ * templates.get<CardMapper>("card").instantiate(cards.map(toMapper));
+ * ```
+ */
+export class TemplateRegistry {
+  private readonly templaters = new Map<string, HTMLTemplater>();
+  /** The pending or completed loads by URL */
+  private readonly loads = new Map<string, Promise<string[]>>();
+
+  /**
+   * @param options
+   * @param options.loader Loads the source of partials files, defaults to `fetch`
+   * @param options.parser The HTML parser for partials files, defaults to the global `DOMParser` if available
+   * @param options.templaterOptions The options of all templaters created by the registry, which don't append to a parent by default
+   */
+  constructor(
+    private readonly options?: {
+      loader?: TemplateLoader;
+      parser?: HTMLParser;
+      templaterOptions?: TemplaterOptions;
+    },
+  ) {}
+
+  /** Creates and registers a templater for {@link template} under {@link name} */
+  public register<T extends TemplateElementMapper = TemplateElementMapper>(
+    name: string,
+    template: string | HTMLTemplateElement | DocumentFragment,
+  ): HTMLTemplater<T> {
+    if (this.templaters.has(name)) {
+      throw new HTMLTemplaterError(
+        null,
+        `Template "${name}" is already registered`,
+        { code: HTMLTemplaterErrorCode.TemplateAlreadyRegistered },
+      );
+    }
+    const templater = new HTMLTemplater<T>(template, {
+      appendToParent: false,
+      removeFromDom: false,
+      ...this.options?.templaterOptions,
+    });
+    this.templaters.set(name, templater as unknown as HTMLTemplater);
+    return templater;
+  }
+
+  /** Returns the templater registered under {@link name} */
+  public get<T extends TemplateElementMapper = TemplateElementMapper>(
+    name: string,
+  ): HTMLTemplater<T> {
+    const templater = this.templaters.get(name);
+    if (!templater) {
+      throw new HTMLTemplaterError(
+        null,
+        `Template "${name}" isn't registered`,
+        {
+          code: HTMLTemplaterErrorCode.TemplateNotRegistered,
+        },
+      );
+    }
+    return templater as unknown as HTMLTemplater<T>;
+  }
+
+  /** Checks if a templater is registered under {@link name} */
+  public has(name: string): boolean {
+    return this.templaters.has(name);
+  }
+
+  /**
+   * Loads the partials file at {@link url} and registers all its `<template>` elements by their `id`.
+   *
+   * Every URL is only loaded once, so modules can load the same file without parsing it again.
+   *
+   * @returns The names of the templates registered from the file
+   */
+  public load(url: string): Promise<string[]> {
+    let load = this.loads.get(url);
+    if (!load) {
+      load = this.loadTemplates(url);
+      this.loads.set(url, load);
+      // Allow retrying failed loads
+      load.catch(() => this.loads.delete(url));
+    }
+    return load;
+  }
+
+  private async loadTemplates(url: string): Promise<string[]> {
+    const loader = this.options?.loader ?? fetchText;
+    const parser = this.options?.parser ??
+      (typeof DOMParser === "undefined" ? undefined : new DOMParser());
+    if (!parser) {
+      throw new HTMLTemplaterError(
+        null,
+        "No `parser` provided and no global `DOMParser` available",
+        { code: HTMLTemplaterErrorCode.ParserUnavailable },
+      );
+    }
+
+    const source = await loader(url);
+    const document = parser.parseFromString(source, "text/html");
+    return Array.from(document.querySelectorAll("template[id]"), (el) => {
+      this.register(el.id, el as HTMLTemplateElement);
+      return el.id;
+    });
+  }
+}
+
+/** Loads the text at {@link url} with `fetch` */
+const fetchText: TemplateLoader = async (url) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new HTMLTemplaterError(
+      null,
+      `Loading templates from "${url}" failed with status ${response.status}`,
+      { code: HTMLTemplaterErrorCode.LoadFailed },
+    );
+  }
+  return response.text();
+};
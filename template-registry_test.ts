@@ -0,0 +1,55 @@
+/// <reference lib="deno.ns" />
+import { DOMParser } from "@b-fuze/deno-dom";
+import { HTMLTemplaterError, TemplateRegistry } from "@md/html-templater";
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+
+const parser = new DOMParser() as unknown as globalThis.DOMParser;
+
+/** Loads partials from memory instead of the network */
+const createLoader = (files: Record<string, string>) => {
+  const loaded: string[] = [];
+  const loader = (url: string) => {
+    loaded.push(url);
+    return Promise.resolve(files[url]);
+  };
+  return { loaded, loader };
+};
+
+Deno.test("TemplateRegistry loads partials once and shares their templaters", async () => {
+  const { loaded, loader } = createLoader({
+    "cards.html":
+      `<template id="card"><h2></h2></template><template id="tag"><i></i></template>`,
+  });
+  const registry = new TemplateRegistry({ loader, parser });
+
+  const [names] = await Promise.all([
+    registry.load("cards.html"),
+    registry.load("cards.html"),
+  ]);
+  assertEquals(names, ["card", "tag"]);
+  assertEquals(loaded, ["cards.html"]);
+  assertEquals(registry.get("card"), registry.get("card"));
+
+  const host = parser.parseFromString(`<div></div>`, "text/html")
+    .querySelector("div")!;
+  registry.get<{ h2: string }>("card").instantiate({ h2: "Title" })
+    .appendTo(host);
+  assertEquals(host.innerHTML, "<h2>Title</h2>");
+});
+
+Deno.test("TemplateRegistry throws for unknown and duplicate names", () => {
+  const dom = new DOMParser().parseFromString(`<body></body>`, "text/html");
+  globalThis.document = dom as unknown as Document;
+  const registry = new TemplateRegistry();
+  registry.register("row", `<tr></tr>`);
+
+  assertInstanceOf(
+    assertThrows(() => registry.register("row", `<tr></tr>`)),
+    HTMLTemplaterError,
+  );
+  assertInstanceOf(
+    assertThrows(() => registry.get("cell")),
+    HTMLTemplaterError,
+  );
+  assertEquals(registry.has("row"), true);
+});
@@ -0,0 +1,153 @@
+import { isElement, nextFrame } from "./utils.ts";
+
+/**
+ * A CSS class based transition like in Vue: `from` and `active` are added, on the next frame `from` is swapped for `to` and once the longest transition or animation of the element ended `active` and `to` are removed.
+ *
+ * @example
+ * ```ts
+ * { from: "fade-from", active: "fade-active", to: "fade-to" }
+ * ```
+ */
+export type TransitionClasses = {
+  /** The classes of the start state, only applied for the first frame */
+  from?: string;
+  /** The classes applied during the whole transition, e.g. declaring the `transition` */
+  active?: string;
+  /** The classes of the end state, applied from the second frame until the transition ends */
+  to?: string;
+};
+
+/** A transition using the Web Animations API, skipped without `Element.animate` */
+export type TransitionKeyframes = {
+  /** The keyframes passed to `Element.animate` */
+  keyframes: Keyframe[] | PropertyIndexedKeyframes;
+  /** The duration in milliseconds or the options passed to `Element.animate` */
+  options?: number | KeyframeAnimationOptions;
+};
+
+/** The transitions of the top-level elements of instances when they are added and before they are removed */
+export type TransitionOptions = {
+  /** The transition of added instances */
+  enter?: TransitionClasses | TransitionKeyframes;
+  /** The transition of removed instances, which delays removing their nodes until it ended */
+  leave?: TransitionClasses | TransitionKeyframes;
+  /** The delay in milliseconds between the transitions of consecutive instances added (or removed by `clear`) at once, or a function returning the delay of each */
+  stagger?: number | ((index: number, count: number) => number);
+  /** Unless set to `"play"`, transitions are skipped while the user prefers reduced motion. Defaults to `"skip"`. */
+  reducedMotion?: "skip" | "play";
+};
+
+/** Returns the delay of the transition of the instance at {@link index} of {@link count} instances transitioning at once */
+export const staggerDelay = (
+  options: TransitionOptions | null,
+  index: number,
+  count: number,
+): number => {
+  const stagger = options?.stagger ?? 0;
+  return typeof stagger === "function"
+    ? stagger(index, count)
+    : stagger * index;
+};
+
+/**
+ * Runs the {@link phase} transition of {@link options} on the top-level elements among {@link nodes}.
+ *
+ * @returns A promise resolving once the transition ended or `null` if there's nothing to transition
+ */
+export const runTransition = (
+  nodes: ReadonlyArray<ChildNode>,
+  options: TransitionOptions | null,
+  phase: "enter" | "leave",
+  delay = 0,
+): Promise<void> | null => {
+  const transition = options?.[phase];
+  const elements = nodes.filter(isElement);
+  if (!transition || !elements.length) return null;
+  if (options.reducedMotion !== "play" && prefersReducedMotion()) return null;
+  return Promise.all(
+    elements.map((el) =>
+      "keyframes" in transition
+        ? animate(el, transition, phase, delay)
+        : transitionClasses(el, transition, delay)
+    ),
+  ).then(() => {});
+};
+
+/** Runs the class based {@link transition} on {@link el} after {@link delay} */
+const transitionClasses = async (
+  el: Element,
+  transition: TransitionClasses,
+  delay: number,
+): Promise<void> => {
+  const from = classNames(transition.from);
+  const active = classNames(transition.active);
+  const to = classNames(transition.to);
+  el.classList.add(...from, ...active);
+  if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+  // The start state has to be rendered once for the transition to start
+  await nextFrame();
+  await nextFrame();
+  el.classList.remove(...from);
+  el.classList.add(...to);
+  // Waits for the longest duration instead of counting end events, which aren't fired for interrupted transitions or ones without effect
+  const duration = transitionDuration(el);
+  if (duration > 0) {
+    await new Promise((resolve) => setTimeout(resolve, duration));
+  }
+  el.classList.remove(...active, ...to);
+};
+
+/** Runs the keyframe based {@link transition} on {@link el} after {@link delay} */
+const animate = async (
+  el: Element,
+  transition: TransitionKeyframes,
+  phase: "enter" | "leave",
+  delay: number,
+): Promise<void> => {
+  if (typeof el.animate !== "function") return;
+  const options = typeof transition.options === "number"
+    ? { duration: transition.options }
+    : transition.options ?? {};
+  const animation = el.animate(transition.keyframes, {
+    ...options,
+    delay: (options.delay ?? 0) + delay,
+    // Keep entering elements in the first keyframe while delayed and leaving ones in the last until removed
+    fill: options.fill ?? (phase === "enter" ? "backwards" : "forwards"),
+  });
+  // Cancelled animations reject, which still ends the transition
+  await animation.finished.catch(() => {});
+};
+
+/** Returns the longest duration including the delay of all transitions and animations of {@link el} in milliseconds */
+const transitionDuration = (el: Element): number => {
+  if (typeof getComputedStyle !== "function") return 0;
+  const style = getComputedStyle(el);
+  const longest = (durations: string, delays: string) => {
+    const delayTimes = delays.split(",").map(parseTime);
+    return Math.max(
+      0,
+      ...durations.split(",").map((duration, i) =>
+        parseTime(duration) + (delayTimes[i % delayTimes.length] ?? 0)
+      ),
+    );
+  };
+  return Math.max(
+    longest(style.transitionDuration ?? "", style.transitionDelay ?? ""),
+    longest(style.animationDuration ?? "", style.animationDelay ?? ""),
+  );
+};
+
+/** Parses a CSS time like `0.3s` or `300ms` to milliseconds */
+const parseTime = (time: string): number => {
+  const value = parseFloat(time) || 0;
+  return time.trim().endsWith("ms") ? value : value * 1000;
+};
+
+/** Splits space separated class names */
+const classNames = (classes: string | undefined): string[] =>
+  classes?.split(/\s+/).filter(Boolean) ?? [];
+
+/** Checks if the user prefers reduced motion, which is never the case without `matchMedia` */
+const prefersReducedMotion = (): boolean =>
+  typeof matchMedia === "function" &&
+  matchMedia("(prefers-reduced-motion: reduce)").matches;
@@ -1,14 +1,23 @@
+import type {
+  HTMLTemplater,
+  ModelBinding,
+  TemplateInstance,
+} from "@md/html-templater";
+
 /** Helper utility for a value or array of the value */
 export type MaybeArray<T> = T | ReadonlyArray<T>;
 /** Helper utility that makes T partial if it's a {@link CSSStyleDeclaration} */
 type PartialIfStylesheet<T> = T extends CSSStyleDeclaration ? Partial<T> : T;
 /** Helper utility for all valid HTML tag names*/
 type HTMLElementTags = keyof HTMLElementTagNameMap;
+/** The element type matched by {@link Selector}, which is only known for plain tag names */
+export type SelectedElement<Selector extends string> = Selector extends
+  HTMLElementTags ? HTMLElementTagNameMap[Selector] : HTMLElement;
 /** Helper utility for all specific HTML Element types */
 type AnyHTMLElement = HTMLElementTagNameMap[HTMLElementTags];
 
 /**
- * Allows for either the type of value directly or a mapper function taking the existing value and modifying it.
+ * Allows for either the type of value directly, a mapper function taking the existing value and modifying it or a {@link ReactiveValue} re-applied whenever it changes.
  *
  * If `null` is provided, the attribute will be removed.
  *
@@ -22,8 +31,29 @@ type AnyHTMLElement = HTMLElementTagNameMap[HTMLElementTags];
 export type TemplateAttributeChange<Input, Output = Input> =
   | PartialIfStylesheet<Output>
   | ((previous: Input) => PartialIfStylesheet<Output>)
+  | ReactiveValue<PartialIfStylesheet<Output> | null>
   | null;
 
+/**
+ * A value notifying about its changes, which is applied to the attribute it's mapped to whenever it changes until its instance is removed.
+ *
+ * Either subscribable like observables and stores (`subscribe` emitting the current value and all changes, returning a function or object to unsubscribe) or signal-like (`get` returning the current value and `watch` notifying about changes, returning a function to stop watching).
+ *
+ * @example
+ * ```ts
+ * const count = new BehaviorSubject(0);
+ * templater.instantiate({ ".count": { textContent: count.pipe(map(String)) } });
+ * count.next(1); // Only patches the `textContent` of `.count`
+ * ```
+ */
+export type ReactiveValue<T> =
+  | {
+    subscribe(
+      listener: (value: T) => void,
+    ): (() => void) | { unsubscribe(): void };
+  }
+  | { get(): T; watch(listener: () => void): () => void };
+
 /**
  * Maps HTML element attributes to their respective {@link TemplateAttributeChange} or values.
  *
@@ -34,9 +64,16 @@ export type TemplateAttributeChange<Input, Output = Input> =
  *  - `{[className: string]: boolean }`: True values get added, false get removed, unspecified remain unchanged
  *  - `(prev: DOMTokenList) => DOMTokenList | ...`: Can modify (and return) existing list, create and return new list, or return any of the above values
  *
+ * The `children` attribute renders nested instances of another {@link HTMLTemplater} into the element ({@link TemplateChildren}).
+ *
+ * The `model` attribute binds a form control to a property path within the data of its instance in both directions ({@link ModelBinding}).
+ *
  * The `eventListeners` attribute allows attaching event listeners with proper event type inference:
  *  - Standard events like `click`, `input`, `keydown` are typed with their specific event types
  *  - Custom events fall back to generic `Event` type
+ *  - Listeners created by an instance also receive its `data` and the instance itself and are removed along with it
+ *
+ * Further keys are handled by custom `AttributeHandler`s declared in {@link AttributeHandlerValues}.
  *
  * @example
  * ```ts
@@ -51,36 +88,63 @@ export type TemplateAttributeChange<Input, Output = Input> =
 export type TemplateAttributeMapper<T extends AnyHTMLElement> =
   | (
     & {
-      [attr in Exclude<keyof T, "classList">]?: TemplateAttributeChange<
-        T[attr]
-      >;
+      [attr in Exclude<keyof T, keyof AttributeHandlerValues>]?:
+        TemplateAttributeChange<
+          T[attr]
+        >;
     }
     & // Include data-* attributes
     { [attr: `data-${string}`]: TemplateAttributeChange<string> }
     & // Allow any additional attributes as unknowns
     { [additional: string]: TemplateAttributeChange<unknown> }
     & // Additional separately handled properties
-    {
-      // classList is handled as a string[]
-      classList?: TemplateAttributeChange<
-        DOMTokenList,
-        DOMTokenList | string[] | { [className: string]: boolean }
-      >;
-      // Event listeners to attach
-      eventListeners?: {
-        [K in keyof HTMLElementEventMap]?: (
-          event: HTMLElementEventMap[K],
-        ) => unknown;
-      };
-    }
+    Partial<AttributeHandlerValues>
   )
   | null
   | string
   | ((element: Element) => unknown);
 
+/**
+ * The value types of the attribute mapper keys handled by `AttributeHandler`s instead of being assigned as property or attribute, which custom handlers extend through declaration merging.
+ *
+ * @example
+ * ```ts
+ * declare module "@md/html-templater" {
+ *   interface AttributeHandlerValues {
+ *     aria: TemplateAttributeChange<Record<string, string | null>>;
+ *   }
+ * }
+ * ```
+ */
+export interface AttributeHandlerValues {
+  /** Classes to add, replace or toggle, see {@link TemplateAttributeMapper} */
+  classList: TemplateAttributeChange<
+    DOMTokenList,
+    DOMTokenList | string[] | { [className: string]: boolean }
+  >;
+  /** Event listeners to attach */
+  eventListeners: {
+    [K in keyof HTMLElementEventMap]?: (
+      event: HTMLElementEventMap[K],
+      data: unknown,
+      instance: TemplateInstance,
+    ) => unknown;
+  };
+  /** Nested templater instances to render into the element */
+  children: TemplateChildren | null;
+  /** The property path within the instance data to bind the form control to */
+  model: string | ModelBinding;
+  /** Nested mappers whose query selectors are applied relative to the element, see {@link TemplateScopedMapper} */
+  $children: TemplateScopedMapper;
+}
+
 /**
  * Maps query selectors to their respective {@link TemplateAttributeMapper}.
  *
+ * The reserved `$self` key maps the top-level elements of the instance, which no query selector can match on their own, and `$children` attributes nest mappers relative to their element ({@link TemplateScopedMapper}).
+ *
+ * The reserved `$data` key provides the data for the bindings declared in the template markup (`{{ expression }}` and `data-bind:attribute="expression"`), which are applied before all query selectors.
+ *
  * @example
  * ```ts
  * const elementMappers: TemplateElementMapper = {
@@ -97,4 +161,98 @@ export type TemplateElementMapper =
       HTMLElementTagNameMap[tag]
     >;
   }
-  & { [querySelector: string]: TemplateAttributeMapper<HTMLElement> };
+  & // Reserved `$` keys have to satisfy the index signature as well
+  {
+    [querySelector: string]:
+      | TemplateAttributeMapper<HTMLElement>
+      | TemplateData;
+  }
+  & {
+    $self?: TemplateAttributeMapper<HTMLElement>;
+    $data?: TemplateData;
+  };
+
+/**
+ * Maps query selectors relative to the element of a `$children` attribute to their respective {@link TemplateAttributeMapper}, where `$self` maps the element itself.
+ *
+ * @example
+ * ```ts
+ * const elementMappers: TemplateElementMapper = {
+ *   $self: { classList: ["card"] },
+ *   ".header": { $children: { h2: "Only the title of the header" } },
+ * }
+ * ```
+ */
+export type TemplateScopedMapper =
+  & {
+    [tag in HTMLElementTags]?: TemplateAttributeMapper<
+      HTMLElementTagNameMap[tag]
+    >;
+  }
+  & { [querySelector: string]: TemplateAttributeMapper<HTMLElement> }
+  & { $self?: TemplateAttributeMapper<HTMLElement> };
+
+/** The data for the declarative bindings of a template */
+export type TemplateData = Record<string, unknown>;
+
+/** Infers the {@link TemplateElementMapper} type of a {@link HTMLTemplater} */
+export type TemplaterMapper<Templater> = Templater extends
+  HTMLTemplater<infer T> ? T : never;
+
+/**
+ * Renders the {@link items} as nested instances of {@link templater} into the matched element.
+ *
+ * The nested instances are tracked under the parent instance and removed along with it. Applying `children` again replaces the previous nested instances, while `null` only removes them.
+ *
+ * Create it with `children(templater, items)` to infer the type of the items from the templater.
+ *
+ * @example
+ * ```ts
+ * const tags = new HTMLTemplater<{ ".tag": string }>("#tag-template", { appendToParent: false });
+ * new HTMLTemplater("#card-template").instantiate({
+ *   ".tags": {
+ *     children: {
+ *       templater: tags,
+ *       items: ["a", "b"].map((tag) => ({ ".tag": tag })),
+ *     } satisfies TemplateChildren<typeof tags>,
+ *   },
+ * });
+ * ```
+ */
+export type TemplateChildren<
+  Templater extends HTMLTemplater<TemplateElementMapper> = HTMLTemplater<
+    TemplateElementMapper
+  >,
+> = {
+  templater: Templater;
+  items: MaybeArray<TemplaterMapper<Templater>>;
+};
+
+/**
+ * Callbacks for the lifecycle of the instances of a {@link HTMLTemplater}.
+ *
+ * @example
+ * ```ts
+ * const observer = new ResizeObserver(onResize);
+ * new HTMLTemplater("#card-template", {
+ *   onMount: (instance) => observer.observe(instance.nodes[0] as Element),
+ *   onRemove: (instance) => observer.unobserve(instance.nodes[0] as Element),
+ * });
+ * ```
+ */
+export type TemplaterHooks<T extends TemplateElementMapper> = {
+  /** Called with the template clone after all mappers were applied, before its nodes are inserted anywhere */
+  onCreate?(fragment: DocumentFragment, mapper: T): void;
+  /** Called once the nodes of {@link instance} were inserted into the DOM by `instantiate`, `render`, `appendTo`, `hydrate` or `replace` */
+  onMount?(instance: TemplateInstance<T>): void;
+  /** Called after the (partial) {@link mapper} was applied to {@link instance} */
+  onUpdate?(instance: TemplateInstance<T>, mapper: Partial<T>): void;
+  /** Called before the nodes of {@link instance} are removed. If a promise is returned, e.g. for an exit animation, the nodes are only removed once it settles */
+  onRemove?(instance: TemplateInstance<T>): void | Promise<unknown>;
+  /** Called after the form control bound to {@link path} by a `model` attribute of {@link instance} changed its data to {@link value} */
+  onModelChange?(
+    instance: TemplateInstance<T>,
+    path: string,
+    value: unknown,
+  ): void;
+};
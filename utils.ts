@@ -0,0 +1,33 @@
+/** Checks if {@link node} is an {@link Element} without relying on the global `Node` */
+export const isElement = (node: Node): node is Element => node.nodeType === 1;
+
+/** The reserved mapper key matching the top-level elements of an instance (or the scope element of nested mappers) instead of a query selector */
+export const SELF_SELECTOR = "$self";
+
+/** Finds all elements matching {@link query} among the top-level {@link nodes} and their descendants, or only the top-level elements for {@link SELF_SELECTOR} */
+export const queryNodes = (
+  nodes: ReadonlyArray<ChildNode>,
+  query: string,
+): Element[] =>
+  query === SELF_SELECTOR
+    ? nodes.filter(isElement)
+    : nodes.filter(isElement).flatMap((node) => [
+      ...(node.matches(query) ? [node] : []),
+      ...node.querySelectorAll(query),
+    ]);
+
+/** Resolves on the next animation frame or, without `requestAnimationFrame`, the next macrotask */
+export const nextFrame = (): Promise<void> =>
+  new Promise((resolve) => {
+    if (typeof requestAnimationFrame === "function") {
+      requestAnimationFrame(() => resolve());
+    } else setTimeout(resolve, 0);
+  });
+
+/** Converts a kebab-case string to camelCase */
+export const toCamel = (str: string): string =>
+  str.replace(/-([a-z])/g, (_, char) => char.toUpperCase());
+
+/** Converts a camelCase string to kebab-case */
+export const toKebab = (str: string): string =>
+  str.replace(/([A-Z])/g, (_, char) => `-${char.toLowerCase()}`);
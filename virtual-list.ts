@@ -0,0 +1,276 @@
+import type { HTMLTemplater, TemplateElementMapper } from "@md/html-templater";
+import { applyAttributeMapper } from "./apply-attribute-mapper.ts";
+import {
+  HTMLTemplaterError,
+  HTMLTemplaterErrorCode,
+} from "./html-templater-error.ts";
+import { TemplateInstance } from "./template-instance.ts";
+
+/** Where to align an item within the viewport when scrolling to it */
+export type ScrollAlignment = "start" | "center" | "end";
+
+/**
+ * Renders a list of items into a scroll container, only materializing the instances of the items in view (plus {@link options.overscan}).
+ *
+ * Spacer elements before and after the rendered instances keep the scroll height of the full list.
+ * Instances scrolled out of view are recycled for the items scrolled into view through {@link TemplateInstance.update}.
+ *
+ * @example
+ * ```ts
+ * const list = new VirtualList(
+ *   new HTMLTemplater("#row-template", { appendToParent: false }),
+ *   {
+ *     container: document.getElementById("log")!,
+ *     items: lines,
+ *     map: (line, index) => ({ ".index": String(index), ".text": line }),
+ *     itemHeight: 24,
+ *   },
+ * );
+ * list.scrollToIndex(lines.length - 1, "end");
+ * ```
+ */
+export class VirtualList<
+  I,
+  T extends TemplateElementMapper = TemplateElementMapper,
+> {
+  /** The scroll container the items are rendered into */
+  public readonly container: HTMLElement;
+  /** The index of the first rendered item */
+  public start = 0;
+  /** The index after the last rendered item */
+  public end = 0;
+
+  private items: ReadonlyArray<I>;
+  /** The rendered instances by the index of their item */
+  private rendered = new Map<number, TemplateInstance<T>>();
+  /** The known height of every item unless they have a fixed height and aren't measured */
+  private heights: number[] = [];
+  /** The offset of every item from the top of the list, lazily recomputed from {@link heights} */
+  private offsets: number[] | null = null;
+  private readonly before: HTMLElement;
+  private readonly after: HTMLElement;
+  private readonly controller = new AbortController();
+
+  /**
+   * @param templater The templater to create the instances with, which shouldn't append to its parent
+   * @param options
+   * @param options.container The scroll container to render into, which should only contain the list
+   * @param options.items The full list of items
+   * @param options.map Maps an item to the mapper of its instance
+   * @param options.itemHeight The height of every item in pixels or a function returning the (estimated) height of an item
+   * @param options.measure If true, the rendered instances are measured and their actual heights used instead of {@link options.itemHeight}
+   * @param options.overscan The number of items rendered above and below the viewport, defaults to 3
+   * @param options.onViewportChange Called with the range of rendered items whenever it changes
+   */
+  constructor(
+    public readonly templater: HTMLTemplater<T>,
+    private readonly options: {
+      container: HTMLElement;
+      items: ReadonlyArray<I>;
+      map: (item: I, index: number) => T;
+      itemHeight: number | ((item: I, index: number) => number);
+      measure?: boolean;
+      overscan?: number;
+      onViewportChange?: (start: number, end: number) => void;
+    },
+  ) {
+    if (templater.appendToParent) {
+      throw new HTMLTemplaterError(
+        templater,
+        "`VirtualList` requires a templater with `appendToParent: false`",
+        { code: HTMLTemplaterErrorCode.InvalidOption },
+      );
+    }
+    this.container = options.container;
+    this.items = options.items;
+
+    const document = this.container.ownerDocument;
+    this.before = document.createElement("div");
+    this.after = document.createElement("div");
+    this.container.append(this.before, this.after);
+    this.resetHeights();
+
+    this.container.addEventListener("scroll", () => this.refresh(), {
+      passive: true,
+      signal: this.controller.signal,
+    });
+    this.refresh();
+  }
+
+  /** Replaces all items, re-applying the mappers of the rendered instances */
+  public setItems(items: ReadonlyArray<I>): this {
+    this.items = items;
+    this.resetHeights();
+    for (const instance of this.rendered.values()) instance.data = undefined;
+    return this.refresh();
+  }
+
+  /** Renders the items currently in view, e.g. after the container was resized */
+  public refresh(): this {
+    const { scrollTop = 0, clientHeight = 0 } = this.container;
+    const overscan = this.options.overscan ?? 3;
+    const start = Math.max(0, this.indexAt(scrollTop) - overscan);
+    const end = Math.min(
+      this.items.length,
+      this.indexAt(scrollTop + clientHeight) + 1 + overscan,
+    );
+
+    const changed = start !== this.start || end !== this.end;
+    this.start = start;
+    this.end = end;
+
+    this.render();
+    if (this.options.measure) this.measure();
+    this.resizeSpacers();
+    if (changed) this.options.onViewportChange?.(start, end);
+    return this;
+  }
+
+  /** Scrolls the container so the item at {@link index} is aligned to the {@link align} of the viewport */
+  public scrollToIndex(index: number, align: ScrollAlignment = "start"): this {
+    const clamped = Math.max(0, Math.min(index, this.items.length - 1));
+    const top = this.offsetOf(clamped);
+    const height = this.offsetOf(clamped + 1) - top;
+    const { clientHeight = 0 } = this.container;
+    this.container.scrollTop = align === "start"
+      ? top
+      : align === "center"
+      ? top - (clientHeight - height) / 2
+      : top + height - clientHeight;
+    return this.refresh();
+  }
+
+  /** Removes all rendered instances and spacers and stops listening to scroll events */
+  public destroy(): void {
+    this.controller.abort();
+    for (const instance of this.rendered.values()) instance.remove();
+    this.rendered.clear();
+    this.before.remove();
+    this.after.remove();
+  }
+
+  /** Renders the items from {@link start} to {@link end}, recycling the instances of items out of view */
+  private render(): void {
+    const { templater, items, options, start, end } = this;
+    const recyclable: TemplateInstance<T>[] = [];
+    for (const [index, instance] of this.rendered) {
+      if (index < start || index >= end) recyclable.push(instance);
+    }
+
+    const rendered = new Map<number, TemplateInstance<T>>();
+    const created: TemplateInstance<T>[] = [];
+    for (let index = start; index < end; index++) {
+      const item = items[index];
+      let instance = this.rendered.get(index) ?? recyclable.pop();
+      if (!instance) {
+        // Bound form controls read the item while the instance is created
+        const mapper = options.map(item, index);
+        instance = new TemplateInstance(templater, [], mapper);
+        instance.data = item;
+        templater.createInstance(mapper, instance);
+        created.push(instance);
+      } else if (instance.data !== item || instance.key !== index) {
+        instance.data = item;
+        instance.update(options.map(item, index));
+      }
+      instance.key = index;
+      rendered.set(index, instance);
+    }
+    for (const instance of recyclable) instance.remove();
+    this.rendered = rendered;
+    templater.instances = Array.from(rendered.values());
+
+    // Only move the nodes which aren't already in order to keep focus intact
+    let reference: Node = this.after;
+    for (let index = end - 1; index >= start; index--) {
+      const { nodes } = rendered.get(index)!;
+      for (let i = nodes.length - 1; i >= 0; i--) {
+        if (nodes[i].nextSibling !== reference) {
+          this.container.insertBefore(nodes[i], reference);
+        }
+        reference = nodes[i];
+      }
+    }
+    for (const instance of created) templater.hooks.onMount?.(instance);
+  }
+
+  /** Updates the heights of the rendered items with their measured heights */
+  private measure(): void {
+    for (const [index, { nodes }] of this.rendered) {
+      const height = nodes.reduce(
+        (sum, node) =>
+          "getBoundingClientRect" in node
+            ? sum + (node as Element).getBoundingClientRect().height
+            : sum,
+        0,
+      );
+      if (height && height !== this.heights[index]) {
+        this.heights[index] = height;
+        this.offsets = null;
+      }
+    }
+  }
+
+  /** Sizes the spacers to the height of the items before and after the rendered ones */
+  private resizeSpacers(): void {
+    const total = this.offsetOf(this.items.length);
+    const top = this.offsetOf(this.start);
+    const bottom = this.offsetOf(this.end);
+    applyAttributeMapper(this.before, { style: { height: `${top}px` } });
+    applyAttributeMapper(this.after, {
+      style: { height: `${total - bottom}px` },
+    });
+  }
+
+  /** Returns the height of every item if it's fixed and not measured, so offsets can be computed without {@link heights} */
+  private fixedHeight(): number | null {
+    const { itemHeight, measure } = this.options;
+    return typeof itemHeight === "number" && !measure ? itemHeight : null;
+  }
+
+  /** Resets the item heights to the ones given by `itemHeight`, which measuring starts from */
+  private resetHeights(): void {
+    const { itemHeight } = this.options;
+    this.heights = this.fixedHeight() !== null
+      ? []
+      : this.items.map((item, index) =>
+        typeof itemHeight === "number" ? itemHeight : itemHeight(item, index)
+      );
+    this.offsets = null;
+  }
+
+  /** Returns the offset of the item at {@link index} from the top of the list */
+  private offsetOf(index: number): number {
+    const fixedHeight = this.fixedHeight();
+    if (fixedHeight !== null) return index * fixedHeight;
+    return this.getOffsets()[index];
+  }
+
+  /** Returns the index of the item at the vertical {@link offset} within the list */
+  private indexAt(offset: number): number {
+    const fixedHeight = this.fixedHeight();
+    if (fixedHeight !== null) {
+      return fixedHeight > 0 ? Math.floor(offset / fixedHeight) : 0;
+    }
+    // Binary search for the last item starting at or before the offset
+    const offsets = this.getOffsets();
+    let low = 0;
+    let high = this.items.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (offsets[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return Math.max(0, low);
+  }
+
+  /** Returns the offsets of all items and the end of the list */
+  private getOffsets(): number[] {
+    if (this.offsets) return this.offsets;
+    const offsets = [0];
+    for (const height of this.heights) {
+      offsets.push(offsets[offsets.length - 1] + height);
+    }
+    return this.offsets = offsets;
+  }
+}
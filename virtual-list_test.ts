@@ -0,0 +1,126 @@
+/// <reference lib="deno.ns" />
+import { DOMParser } from "@b-fuze/deno-dom";
+import {
+  HTMLTemplater,
+  type TemplateElementMapper,
+  VirtualList,
+} from "@md/html-templater";
+import { assert, assertEquals } from "@std/assert";
+
+/** Creates a scroll container with a fixed viewport height of 50px as deno-dom doesn't lay out */
+const setup = <T extends TemplateElementMapper = { p: string }>(
+  templateHTML = "<p></p>",
+) => {
+  const dom = new DOMParser().parseFromString(
+    `<body><div id="log"></div><template>${templateHTML}</template></body>`,
+    "text/html",
+  );
+  globalThis.document = dom as unknown as Document;
+  const container = dom.getElementById("log") as unknown as HTMLElement;
+  Object.defineProperty(container, "clientHeight", { value: 50 });
+  Object.defineProperty(container, "scrollTop", { value: 0, writable: true });
+  const templater = new HTMLTemplater<T>("template", {
+    appendToParent: false,
+  });
+  return { container, templater };
+};
+
+/** Returns the height of the spacer style without whitespace */
+const spacerHeight = (spacer: Element | null) =>
+  spacer?.getAttribute("style")?.replace(/\s/g, "");
+
+Deno.test("VirtualList only renders the items in view and recycles instances", () => {
+  const { container, templater } = setup();
+  const viewports: number[][] = [];
+  new VirtualList(templater, {
+    container,
+    items: Array.from({ length: 1000 }, (_, i) => i),
+    map: (item) => ({ p: String(item) }),
+    itemHeight: 10,
+    overscan: 2,
+    onViewportChange: (start, end) => viewports.push([start, end]),
+  });
+
+  const [first] = container.querySelectorAll("p");
+  assertEquals(container.querySelectorAll("p").length, 8);
+  assertEquals(spacerHeight(container.lastElementChild), "height:9920px");
+
+  container.scrollTop = 500;
+  container.dispatchEvent(new Event("scroll"));
+
+  const paragraphs = Array.from(container.querySelectorAll("p"));
+  assertEquals(viewports, [[0, 8], [48, 58]]);
+  assertEquals(templater.instances.length, 10);
+  assertEquals(paragraphs[0].textContent, "48");
+  assertEquals(paragraphs[9].textContent, "57");
+  assert(paragraphs.includes(first), "Recycles the existing nodes");
+  assertEquals(spacerHeight(container.firstElementChild), "height:480px");
+});
+
+Deno.test("VirtualList scrolls to items with variable heights", () => {
+  const { container, templater } = setup();
+  const list = new VirtualList(templater, {
+    container,
+    items: Array.from({ length: 100 }, (_, i) => i),
+    map: (item) => ({ p: String(item) }),
+    itemHeight: (item) => item % 2 ? 20 : 10,
+    overscan: 0,
+  });
+
+  list.scrollToIndex(10);
+  assertEquals(container.scrollTop, 150);
+  assertEquals([list.start, list.end], [10, 14]);
+  assertEquals(container.querySelector("p")?.textContent, "10");
+
+  list.setItems([]);
+  assertEquals(container.querySelectorAll("p").length, 0);
+});
+
+Deno.test("VirtualList measures the rendered items with a fixed itemHeight", () => {
+  const { container, templater } = setup();
+  const list = new VirtualList(templater, {
+    container,
+    items: Array.from({ length: 100 }, (_, i) => i),
+    map: (item) => ({ p: String(item) }),
+    itemHeight: 10,
+    measure: true,
+    overscan: 0,
+  });
+  assertEquals([list.start, list.end], [0, 6]);
+
+  // Even items are actually twice as high as estimated
+  for (const p of container.querySelectorAll("p")) {
+    const height = Number(p.textContent) % 2 ? 10 : 20;
+    Object.defineProperty(p, "getBoundingClientRect", {
+      value: () => ({ height }),
+    });
+  }
+  list.refresh();
+  assertEquals(spacerHeight(container.lastElementChild), "height:940px");
+
+  list.scrollToIndex(6);
+  assertEquals(container.scrollTop, 90);
+  assertEquals(container.querySelector("p")?.textContent, "6");
+});
+
+Deno.test("VirtualList binds form controls to the items they render", () => {
+  const { container, templater } = setup<TemplateElementMapper>(
+    `<input class="name">`,
+  );
+  const list = new VirtualList(templater, {
+    container,
+    items: Array.from({ length: 100 }, (_, i) => ({ name: `n${i}` })),
+    map: () => ({ ".name": { model: "name" } }),
+    itemHeight: 10,
+    overscan: 0,
+  });
+  const values = () =>
+    Array.from(
+      container.querySelectorAll("input"),
+      (input) => (input as HTMLInputElement).value,
+    );
+  assertEquals(values(), ["n0", "n1", "n2", "n3", "n4", "n5"]);
+
+  list.scrollToIndex(10);
+  assertEquals(values(), ["n10", "n11", "n12", "n13", "n14", "n15"]);
+});